@@ -0,0 +1,24 @@
+import { NextResponse } from "next/server"
+import { getChannels } from "@/lib/channels"
+import { getHistory, summarizeHistory } from "@/lib/health-history"
+
+export const dynamic = "force-dynamic"
+
+// Probe history for one channel plus uptime and latency percentiles
+export async function GET(_request: Request, { params }: { params: Promise<{ id: string }> }) {
+  const { id } = await params
+
+  try {
+    const channels = await getChannels()
+    if (!channels.some((c) => c.id === id)) {
+      return NextResponse.json({ error: "Channel not found" }, { status: 404 })
+    }
+
+    const history = await getHistory(id)
+    return NextResponse.json({ channelId: id, history, ...summarizeHistory(history) })
+  } catch (e) {
+    // Storage failures carry their cause to the dashboard
+    const error = e instanceof Error ? e.message : "Failed to load health history"
+    return NextResponse.json({ error }, { status: 503 })
+  }
+}
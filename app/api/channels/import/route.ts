@@ -0,0 +1,86 @@
+import { NextResponse } from "next/server"
+import type { ZodError } from "zod"
+import { addChannels, getChannels } from "@/lib/channels"
+import { fetchM3u, MAX_M3U_BYTES, previewImport } from "@/lib/channel-import"
+import { channelImportSchema, importSourceSchema } from "@/lib/channel-schema"
+import { ChannelStoreError } from "@/lib/channel-store"
+import { M3uParseError, parseM3u } from "@/lib/m3u"
+import { BlockedTargetError } from "@/lib/network-policy"
+
+export const dynamic = "force-dynamic"
+
+// Two steps, both POST:
+//   - multipart form data with a "file", or JSON { url }: parses the M3U list
+//     and answers with a preview ({ entries, unsupported }), nothing is saved
+//   - JSON { channels }: creates the entries picked from the preview
+export async function POST(request: Request) {
+  if (request.headers.get("content-type")?.startsWith("multipart/form-data")) {
+    const form = await request.formData().catch(() => null)
+    const file = form?.get("file")
+    if (!(file instanceof File)) {
+      return NextResponse.json({ error: "An M3U file is required" }, { status: 400 })
+    }
+    if (file.size > MAX_M3U_BYTES) {
+      return NextResponse.json({ error: `List is larger than ${MAX_M3U_BYTES / 1024 / 1024} MB` }, { status: 413 })
+    }
+    return preview(await file.text())
+  }
+
+  const body = await request.json().catch(() => null)
+  if (body && typeof body === "object" && "channels" in body) return create(body)
+
+  const parsed = importSourceSchema.safeParse(body)
+  if (!parsed.success) return invalidBody(parsed.error)
+
+  let list: { text: string; url: string }
+  try {
+    list = await fetchM3u(parsed.data.url)
+  } catch (e) {
+    if (e instanceof BlockedTargetError) return NextResponse.json({ error: e.message }, { status: 403 })
+    const reason = e instanceof Error ? e.message : "Request failed"
+    return NextResponse.json({ error: `Could not download the list: ${reason}` }, { status: 502 })
+  }
+  return preview(list.text, list.url)
+}
+
+async function preview(text: string, baseUrl?: string) {
+  try {
+    const { entries, unsupported } = parseM3u(text, baseUrl)
+    if (entries.length === 0) {
+      return NextResponse.json({ error: "No channels found in the list" }, { status: 400 })
+    }
+    return NextResponse.json({ entries: previewImport(entries, await getChannels()), unsupported })
+  } catch (e) {
+    return failure(e, "Failed to read the list")
+  }
+}
+
+async function create(body: unknown) {
+  const parsed = channelImportSchema.safeParse(body)
+  if (!parsed.success) return invalidBody(parsed.error)
+
+  try {
+    const created = await addChannels(
+      parsed.data.channels.map(({ name, sourceUrl, ...options }) => {
+        const sources = options.sources ?? [sourceUrl as string]
+        return { name, sourceUrl: sources[0], options: { ...options, sources } }
+      }),
+    )
+    return NextResponse.json({ created }, { status: 201 })
+  } catch (e) {
+    return failure(e, "Failed to import channels")
+  }
+}
+
+function failure(e: unknown, message: string) {
+  if (e instanceof M3uParseError) return NextResponse.json({ error: e.message }, { status: 400 })
+  if (e instanceof ChannelStoreError) return NextResponse.json({ error: e.message }, { status: 503 })
+  return NextResponse.json({ error: message }, { status: 500 })
+}
+
+function invalidBody(error: ZodError) {
+  return NextResponse.json(
+    { error: error.issues[0]?.message ?? "Invalid request body", issues: error.issues },
+    { status: 400 },
+  )
+}
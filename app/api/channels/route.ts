@@ -1,5 +1,18 @@
 import { NextResponse } from "next/server"
-import { getChannels, addChannel, removeChannel } from "@/lib/channels"
+import type { ZodError } from "zod"
+import {
+  getChannels,
+  addChannel,
+  removeChannel,
+  updateChannel,
+  type Channel,
+} from "@/lib/channels"
+import { ChannelStoreError } from "@/lib/channel-store"
+import { getChannelSources, getChannelType } from "@/lib/channel-sources"
+import { channelCreateSchema, channelUpdateSchema } from "@/lib/channel-schema"
+import { removeHistory } from "@/lib/health-history"
+import { forgetChannelSequences } from "@/lib/stall-detector"
+import { getSubscriptions, ignoreEntry, subscriptionKey } from "@/lib/subscriptions"
 
 export const dynamic = "force-dynamic"
 
@@ -9,28 +22,82 @@ export async function GET() {
     return NextResponse.json(channels)
   } catch (e) {
     console.error("[v0] GET /api/channels error:", e)
-    return NextResponse.json([], { status: 200 })
+    // Never an empty list: the dashboard would show every channel as gone
+    return failure(e, "Failed to load channels")
   }
 }
 
 export async function POST(request: Request) {
   try {
-    const body = await request.json()
-    const { name, sourceUrl } = body
+    const body = await request.json().catch(() => null)
+    const parsed = channelCreateSchema.safeParse(body)
+    if (!parsed.success) {
+      return invalidBody(parsed.error)
+    }
+
+    const { name, sourceUrl, ...options } = parsed.data
+    const sources = options.sources ?? [sourceUrl as string]
+    const channel = await addChannel(name, sources[0], { ...options, sources })
+    return NextResponse.json(channel, { status: 201 })
+  } catch (e) {
+    return failure(e, "Failed to add channel")
+  }
+}
+
+export async function PATCH(request: Request) {
+  try {
+    const { searchParams } = new URL(request.url)
+    const id = searchParams.get("id")
+
+    if (!id) {
+      return NextResponse.json({ error: "Channel ID is required" }, { status: 400 })
+    }
 
-    if (!name || !sourceUrl) {
-      return NextResponse.json({ error: "Name and source URL are required" }, { status: 400 })
+    const body = await request.json().catch(() => null)
+    const parsed = channelUpdateSchema.safeParse(body)
+    if (!parsed.success) {
+      return invalidBody(parsed.error)
     }
 
-    const urlStr = sourceUrl.trim()
-    if (!urlStr.startsWith("http://") && !urlStr.startsWith("https://")) {
-      return NextResponse.json({ error: "Invalid URL format" }, { status: 400 })
+    const changes = parsed.data
+    const channel = await updateChannel(id, (existing) => {
+      const updates: Partial<Channel> = { ...changes }
+      const previousSources = getChannelSources(existing)
+      if (changes.sources) {
+        updates.sourceUrl = changes.sources[0]
+      } else if (changes.sourceUrl !== undefined) {
+        updates.sources = [changes.sourceUrl, ...previousSources.slice(1)]
+      }
+
+      // New sources have not been checked yet: start over from the primary
+      if (updates.sources && updates.sources.join("\n") !== previousSources.join("\n")) {
+        updates.activeSourceIndex = 0
+        updates.status = "unknown"
+        updates.lastChecked = undefined
+      }
+      // The last status was judged by another type's rules
+      if (updates.type && updates.type !== getChannelType(existing)) {
+        updates.status = "unknown"
+        updates.lastChecked = undefined
+      }
+      if (updates.customHeaders && Object.keys(updates.customHeaders).length === 0) {
+        updates.customHeaders = undefined
+      }
+      if (updates.variantRules && Object.keys(updates.variantRules).length === 0) {
+        updates.variantRules = undefined
+      }
+      if (updates.renditionRules && Object.keys(updates.renditionRules).length === 0) {
+        updates.renditionRules = undefined
+      }
+      return updates
+    })
+    if (!channel) {
+      return NextResponse.json({ error: "Channel not found" }, { status: 404 })
     }
 
-    const channel = await addChannel(name, urlStr)
-    return NextResponse.json(channel, { status: 201 })
-  } catch {
-    return NextResponse.json({ error: "Failed to add channel" }, { status: 500 })
+    return NextResponse.json(channel)
+  } catch (e) {
+    return failure(e, "Failed to update channel")
   }
 }
 
@@ -43,9 +110,32 @@ export async function DELETE(request: Request) {
       return NextResponse.json({ error: "Channel ID is required" }, { status: 400 })
     }
 
+    const existing = (await getChannels()).find((c) => c.id === id)
     await removeChannel(id)
+    await removeHistory(id)
+    forgetChannelSequences(id)
+
+    // Deleted by hand: the next sync of its subscription must not bring it back
+    if (existing?.subscriptionId) {
+      const subscription = (await getSubscriptions()).find((s) => s.id === existing.subscriptionId)
+      const key = subscription && subscriptionKey(subscription.rules.match, existing)
+      if (key) await ignoreEntry(subscription.id, key)
+    }
     return NextResponse.json({ success: true })
-  } catch {
-    return NextResponse.json({ error: "Failed to delete channel" }, { status: 500 })
+  } catch (e) {
+    return failure(e, "Failed to delete channel")
   }
 }
+
+function invalidBody(error: ZodError) {
+  return NextResponse.json(
+    { error: error.issues[0]?.message ?? "Invalid request body", issues: error.issues },
+    { status: 400 },
+  )
+}
+
+// Storage failures carry their cause to the dashboard
+function failure(e: unknown, message: string) {
+  if (e instanceof ChannelStoreError) return NextResponse.json({ error: e.message }, { status: 503 })
+  return NextResponse.json({ error: message }, { status: 500 })
+}
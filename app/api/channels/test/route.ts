@@ -1,11 +1,25 @@
 import { NextRequest, NextResponse } from "next/server"
+import { getChannels, updateChannel } from "@/lib/channels"
+import { recordSamples, sampleFromProbe } from "@/lib/health-history"
+import { CHANNEL_TYPES, getActiveSource, getChannelSources, getChannelType, hasSources } from "@/lib/channel-sources"
+import { probeStream, statusFromProbe } from "@/lib/probe"
 
 export const dynamic = "force-dynamic"
 
-// Test if an HLS URL is reachable and valid
+// Test if a source URL is reachable and valid for its stream type (the
+// channel's, else `type` in the body, else HLS). When a channel id is given
+// only that channel's own sources can be tested (it defaults to the active
+// one), with its custom headers, and the outcome is persisted as its status.
 export async function POST(request: NextRequest) {
   try {
-    const { url } = await request.json()
+    const { url: requestedUrl, id, type } = await request.json()
+
+    const channel = typeof id === "string" && id ? (await getChannels()).find((c) => c.id === id) : undefined
+    if (id && !channel) {
+      return NextResponse.json({ ok: false, error: "Channel not found" }, { status: 404 })
+    }
+
+    const url = requestedUrl ?? (channel ? getActiveSource(channel) : undefined)
 
     if (!url || typeof url !== "string") {
       return NextResponse.json({ ok: false, error: "URL is required" }, { status: 400 })
@@ -15,66 +29,37 @@ export async function POST(request: NextRequest) {
       return NextResponse.json({ ok: false, error: "Invalid URL scheme" }, { status: 400 })
     }
 
-    const startTime = Date.now()
-
-    let origin: string
-    let referer: string
-    try {
-      const u = new URL(url)
-      origin = u.origin
-      referer = u.origin + "/"
-    } catch {
-      return NextResponse.json({ ok: false, error: "Malformed URL" }, { status: 400 })
+    // The channel's headers (often credentials) never go to another host, and
+    // its status never reflects an unrelated URL
+    if (channel && !getChannelSources(channel).includes(url)) {
+      return NextResponse.json({ ok: false, error: "URL is not a source of this channel" }, { status: 400 })
     }
 
-    const res = await fetch(url, {
-      headers: {
-        "User-Agent":
-          "Mozilla/5.0 (Windows NT 10.0; Win64; x64) AppleWebKit/537.36 (KHTML, like Gecko) Chrome/131.0.0.0 Safari/537.36",
-        Accept: "*/*",
-        Origin: origin,
-        Referer: referer,
-      },
-      cache: "no-store",
-      redirect: "follow",
-      signal: AbortSignal.timeout(10000),
-    })
-
-    const latencyMs = Date.now() - startTime
-    const contentType = res.headers.get("content-type") || ""
-    const text = await res.text()
+    const streamType = channel
+      ? getChannelType(channel)
+      : CHANNEL_TYPES.find((t) => t === type) ?? "hls"
+    const result = await probeStream(url, channel?.customHeaders, streamType)
+    if (result.error === "Malformed URL") {
+      return NextResponse.json(result, { status: 400 })
+    }
 
-    if (!res.ok) {
-      return NextResponse.json({
-        ok: false,
-        error: `HTTP ${res.status} ${res.statusText}`,
-        latencyMs,
+    if (channel) {
+      const checkedAt = new Date().toISOString()
+      const probed = getChannelSources(channel)
+      // Not when the sources were edited while the probe ran
+      let applied = false
+      await updateChannel(channel.id, (existing) => {
+        if (!hasSources(existing, probed)) return {}
+        applied = true
+        return { status: statusFromProbe(result), lastChecked: checkedAt }
       })
+      // A failing history is reported through /api/storage; the probe result still stands
+      if (applied) await recordSamples({ [channel.id]: sampleFromProbe(result, checkedAt) }).catch(() => {})
     }
 
-    // Check if it looks like a valid HLS playlist
-    const isM3u8 = text.includes("#EXTM3U") || text.includes("#EXT-X-")
-    const isMaster = text.includes("#EXT-X-STREAM-INF")
-    const isMedia = text.includes("#EXTINF")
-    const lines = text.split("\n").filter((l) => l.trim().length > 0 && !l.trim().startsWith("#"))
-
-    return NextResponse.json({
-      ok: isM3u8,
-      error: isM3u8 ? undefined : "Response is not a valid HLS playlist",
-      latencyMs,
-      contentType,
-      isM3u8,
-      isMaster,
-      isMedia,
-      segmentCount: lines.length,
-      playlistSize: text.length,
-      httpStatus: res.status,
-    })
+    return NextResponse.json(result)
   } catch (err) {
     const message = err instanceof Error ? err.message : "Unknown error"
-    return NextResponse.json({
-      ok: false,
-      error: message.includes("timeout") ? "Connection timeout (10s)" : message,
-    })
+    return NextResponse.json({ ok: false, error: message })
   }
 }
@@ -1,5 +1,6 @@
 import { NextRequest, NextResponse } from "next/server"
 import { getChannels } from "@/lib/channels"
+import { getEntryPath } from "@/lib/channel-sources"
 
 export async function GET(request: NextRequest) {
   try {
@@ -11,8 +12,15 @@ export async function GET(request: NextRequest) {
     let m3u = "#EXTM3U\n\n"
 
     for (const channel of channels) {
-      m3u += `#EXTINF:-1 tvg-id="${channel.id}" tvg-name="${channel.name}",${channel.name}\n`
-      m3u += `${baseUrl}/api/proxy/${channel.id}.m3u8\n\n`
+      // Guide metadata from an imported list wins, so EPG matching keeps working
+      const tvgId = attributeValue(channel.tvgId ?? channel.id)
+      const tvgName = attributeValue(channel.tvgName ?? channel.name)
+      let attributes = `tvg-id="${tvgId}" tvg-name="${tvgName}"`
+      if (channel.logoUrl) attributes += ` tvg-logo="${attributeValue(channel.logoUrl)}"`
+      if (channel.group) attributes += ` group-title="${attributeValue(channel.group)}"`
+      m3u += `#EXTINF:-1 ${attributes},${singleLine(channel.name)}\n`
+      // Each channel type has its own entry point (.m3u8, .mpd, .ts, .stream)
+      m3u += `${baseUrl}${getEntryPath(channel)}\n\n`
     }
 
     return new NextResponse(m3u, {
@@ -26,3 +34,13 @@ export async function GET(request: NextRequest) {
     return NextResponse.json({ error: "Failed to export" }, { status: 500 })
   }
 }
+
+// M3U has no escaping: a quote would end the attribute and a line break the
+// entry, so both are dropped
+function attributeValue(value: string): string {
+  return singleLine(value).replaceAll('"', "")
+}
+
+function singleLine(value: string): string {
+  return value.replace(/[\r\n]+/g, " ")
+}
@@ -1,5 +1,31 @@
 import { type NextRequest, NextResponse } from "next/server"
-import { getChannels } from "@/lib/channels"
+import { getChannel, updateChannel, type Channel } from "@/lib/channels"
+import { getActiveSourceIndex, getChannelSources, getChannelType, getEntryPath } from "@/lib/channel-sources"
+import { config } from "@/lib/config"
+import { parsePlaylist, type Playlist } from "@/lib/hls"
+import { contentRange, parseRange, readUpTo, sliceStream } from "@/lib/http-range"
+import { isMpd, rewriteMpd } from "@/lib/mpd-rewrite"
+import { BlockedTargetError, fetchChecked, HEADERS_TIMEOUT_MS } from "@/lib/network-policy"
+import {
+  isPlaylistOk,
+  loadPlaylist,
+  playlistTtlMs,
+  type PlaylistCacheStatus,
+  type PlaylistResult,
+} from "@/lib/playlist-cache"
+import {
+  getSegmentCache,
+  unsharedResponse,
+  validatorsOf,
+  type CachedSegment,
+  type SharedResponse,
+  type Validators,
+} from "@/lib/segment-cache"
+import { pathScope, rewritePlaylist, type HeaderRef, type RenditionRules } from "@/lib/playlist-rewrite"
+import { forgetSequences, observeSequence, sequenceInfo } from "@/lib/stall-detector"
+import { findLiveSession, getLiveSession } from "@/lib/ts-repackager"
+import { verifyProxyUrl } from "@/lib/url-signing"
+import { applyVariantRules, variantRulesFromQuery, type VariantRules } from "@/lib/variant-rules"
 
 export const dynamic = "force-dynamic"
 export const fetchCache = "force-no-store"
@@ -9,19 +35,41 @@ export const fetchCache = "force-no-store"
  *
  * URL patterns:
  *   /api/proxy/CHANNEL_ID.m3u8          → channel entry point (playlist)
+ *   /api/proxy/CHANNEL_ID.m3u8?maxHeight=720 → variant rule overrides (see lib/variant-rules.ts)
  *   /api/proxy/s?url=ENCODED_URL        → resource proxy (sub-playlists, .ts segments, keys, etc.)
- *   /api/proxy/s?url=ENCODED&h=ENCODED  → resource proxy with custom headers
+ *   /api/proxy/s?url=ENCODED&c=ID       → resource proxy using channel ID's custom headers
+ *   /api/proxy/s?url=ENCODED&h=ENCODED  → legacy: headers inline (PROXY_ALLOW_LEGACY_HEADERS only)
+ *   /api/proxy/CHANNEL_ID.mpd           → channel entry point (DASH manifest)
+ *   /api/proxy/d/ID/EXP/SCOPE/SIG/ORIGIN/PATH → resource proxy, path-style (DASH, see lib/mpd-rewrite.ts)
+ *   /api/proxy/CHANNEL_ID.ts            → raw MPEG-TS channel, relayed as is
+ *   /api/proxy/CHANNEL_ID.m3u8          → MPEG-TS channel repackaged into live HLS (lib/ts-repackager.ts)
+ *   /api/proxy/live/CHANNEL_ID/SEQ.ts   → segment of a repackaged MPEG-TS channel
+ *   /api/proxy/CHANNEL_ID.stream        → progressive channel (Icecast etc.), relayed as is
+ *
+ * Each channel is served only at the entry point of its type (lib/channel-sources.ts),
+ * plus the repackaged playlist for MPEG-TS channels.
+ *
+ * LL-HLS delivery directives (_HLS_msn, _HLS_part, _HLS_skip) that players
+ * append to either form are forwarded to the origin playlist URL.
  *
  * The key insight: rewritten URLs inside playlists use /api/proxy/s?url= so
  * the player transparently fetches every sub-resource through our proxy.
  * For sub-playlists (.m3u8), we re-rewrite them too, so the chain is fully proxied.
+ *
+ * Custom headers never leave the server: rewritten URLs only carry the channel
+ * ID, which the resource proxy resolves against the channel store.
+ *
+ * Rewritten URLs are also signed (&e=EXPIRY&sig=HMAC, see lib/url-signing.ts)
+ * so the resource proxy only fetches targets our own rewriter handed out, and
+ * every upstream host is checked against the network deny-list after DNS
+ * resolution, including each redirect hop.
  */
 
 const CORS: Record<string, string> = {
   "Access-Control-Allow-Origin": "*",
   "Access-Control-Allow-Methods": "GET, HEAD, OPTIONS",
   "Access-Control-Allow-Headers": "*",
-  "Access-Control-Expose-Headers": "Content-Length, Content-Type, Content-Range",
+  "Access-Control-Expose-Headers": "Content-Length, Content-Type, Content-Range, Accept-Ranges, ETag, Last-Modified, X-Cache",
   "Access-Control-Max-Age": "86400",
 }
 
@@ -36,6 +84,8 @@ export async function HEAD(
   { params }: { params: Promise<{ segments: string[] }> },
 ) {
   const res = await GET(request, { params })
+  // Release the upstream connection, HEAD never sends the body
+  await res.body?.cancel()
   return new NextResponse(null, { status: res.status, headers: res.headers })
 }
 
@@ -52,7 +102,24 @@ export async function GET(
     // ── Pattern 1: /api/proxy/CHANNEL_ID.m3u8 ──────────────────────────
     if (segments.length === 1 && segments[0].endsWith(".m3u8")) {
       const channelId = segments[0].slice(0, -5) // strip ".m3u8"
-      return await handleChannelPlaylist(channelId, origin)
+      return await handleChannelPlaylist(channelId, origin, url.searchParams)
+    }
+
+    // ── Pattern 1b: /api/proxy/CHANNEL_ID.mpd ──────────────────────────
+    if (segments.length === 1 && segments[0].endsWith(".mpd")) {
+      const channelId = segments[0].slice(0, -4) // strip ".mpd"
+      return await handleChannelManifest(channelId, origin)
+    }
+
+    // ── Pattern 1c: /api/proxy/CHANNEL_ID.ts | CHANNEL_ID.stream ───────
+    const streamEntry = segments.length === 1 ? /^(.+)\.(ts|stream)$/.exec(segments[0]) : null
+    if (streamEntry) {
+      return await handleChannelStream(streamEntry[1], request)
+    }
+
+    // ── Pattern 1d: /api/proxy/live/CHANNEL_ID/SEQ.ts ──────────────────
+    if (segments[0] === "live" && segments.length === 3 && /^\d+\.ts$/.test(segments[2])) {
+      return handleLiveSegment(segments[1], Number.parseInt(segments[2], 10))
     }
 
     // ── Pattern 2: /api/proxy/s?url=ENCODED_URL ────────────────────────
@@ -61,12 +128,64 @@ export async function GET(
       if (!encodedUrl) {
         return new NextResponse("Missing ?url= param", { status: 400, headers: CORS })
       }
-      const headersParam = url.searchParams.get("h") || undefined
-      return await handleResourceProxy(encodedUrl, origin, headersParam)
+      const ref: HeaderRef = {
+        channelId: url.searchParams.get("c") || undefined,
+        legacyHeaders: config.allowLegacyHeaderParam ? url.searchParams.get("h") || undefined : undefined,
+      }
+
+      const sig = url.searchParams.get("sig")
+      if (sig) {
+        const expires = Number(url.searchParams.get("e"))
+        // The raw ?h= value, whether or not it is honored: it is part of what was signed
+        const legacyHeaders = url.searchParams.get("h") || undefined
+        if (!verifyProxyUrl(encodedUrl, ref.channelId, legacyHeaders, expires, sig)) {
+          return new NextResponse("Invalid or expired signature", { status: 403, headers: CORS })
+        }
+      } else if (!config.allowUnsignedProxyUrls) {
+        return new NextResponse("Missing signature", { status: 403, headers: CORS })
+      }
+
+      let targetUrl: string
+      try {
+        targetUrl = Buffer.from(encodedUrl, "base64url").toString("utf-8")
+      } catch {
+        return new NextResponse("Invalid URL encoding", { status: 400, headers: CORS })
+      }
+      return await handleResourceProxy(targetUrl, origin, ref, request)
+    }
+
+    // ── Pattern 3: /api/proxy/d/CHANNEL/EXPIRY/SCOPE/SIG/ORIGIN/PATH... ─
+    // Path-style URLs from rewritten DASH manifests; always signed, and only
+    // valid under the leading SCOPE directories of the path they were made for
+    if (segments[0] === "d" && segments.length >= 7) {
+      const [, channel, expires, scope, sig, encodedOrigin] = segments
+      const ref: HeaderRef = { channelId: channel === "_" ? undefined : channel }
+
+      // The upstream path is taken from the raw request path: the decoded
+      // segments would lose percent-encoding the origin may depend on
+      const marker = `/${encodedOrigin}/`
+      const path = url.pathname.slice(url.pathname.indexOf(marker) + marker.length)
+      const upstreamOrigin = Buffer.from(encodedOrigin, "base64url").toString("utf-8")
+      const targetUrl = `${upstreamOrigin}/${path}${url.search}`
+
+      const scoped = path.split("/").slice(0, -1).slice(0, Number(scope))
+      const signed =
+        scoped.length === Number(scope) &&
+        verifyProxyUrl(pathScope(encodedOrigin, scoped), ref.channelId, undefined, Number(expires), sig)
+      // Dot segments must not lead out of the signed directories
+      const prefix = `/${scoped.map((d) => `${d}/`).join("")}`
+      if (!signed || !URL.canParse(targetUrl) || !new URL(targetUrl).pathname.startsWith(prefix)) {
+        return new NextResponse("Invalid or expired signature", { status: 403, headers: CORS })
+      }
+      return await handleResourceProxy(targetUrl, origin, ref, request)
     }
 
     return new NextResponse("Unknown proxy route", { status: 404, headers: CORS })
   } catch (err) {
+    if (err instanceof BlockedTargetError) {
+      console.warn("[proxy] Blocked:", err.message)
+      return new NextResponse("Target not allowed", { status: 403, headers: CORS })
+    }
     const msg = err instanceof Error ? err.message : "Unknown proxy error"
     console.error("[proxy] Error:", msg)
     return new NextResponse(`#EXTM3U\n#EXT-X-ERROR:${msg}`, {
@@ -77,9 +196,16 @@ export async function GET(
 }
 
 // ── Channel entry point ────────────────────────────────────────────────────
-async function handleChannelPlaylist(channelId: string, proxyOrigin: string) {
-  const channels = await getChannels()
-  const channel = channels.find((c) => c.id === channelId)
+async function handleChannelPlaylist(channelId: string, proxyOrigin: string, query: URLSearchParams) {
+  const override = variantRulesFromQuery(query)
+  if (override.error) {
+    return new NextResponse(`#EXTM3U\n#EXT-X-ERROR:${override.error}`, {
+      status: 400,
+      headers: { ...CORS, "Content-Type": "application/vnd.apple.mpegurl" },
+    })
+  }
+
+  const channel = await getChannel(channelId)
 
   if (!channel) {
     return new NextResponse("#EXTM3U\n#EXT-X-ERROR:Channel not found", {
@@ -88,191 +214,651 @@ async function handleChannelPlaylist(channelId: string, proxyOrigin: string) {
     })
   }
 
-  const fetchHeaders = buildFetchHeaders(channel.sourceUrl, channel.customHeaders)
-  const res = await fetchRetry(channel.sourceUrl, fetchHeaders)
+  if (getChannelType(channel) === "mpegts") {
+    return await handleLivePlaylist(channel, proxyOrigin)
+  }
+  if (getChannelType(channel) !== "hls") {
+    return new NextResponse(`#EXTM3U\n#EXT-X-ERROR:Channel is served at ${getEntryPath(channel)}`, {
+      status: 404,
+      headers: { ...CORS, "Content-Type": "application/vnd.apple.mpegurl" },
+    })
+  }
 
-  if (!res.ok) {
-    return new NextResponse(`#EXTM3U\n#EXT-X-ERROR:Upstream ${res.status}`, {
+  // Query parameters override the channel's variant rules one by one
+  const master: MasterOptions = {
+    variants: { ...channel.variantRules, ...override.rules },
+    renditions: channel.renditionRules,
+  }
+  // Only set when the entry point is itself an LL-HLS media playlist
+  const directives = deliveryDirectives(query)
+  const key = `entry|${channel.id}|${proxyOrigin}|${JSON.stringify(master)}|${directives}`
+  const { result, cache } = await loadPlaylist(key, () =>
+    fetchChannelPlaylist(channel, proxyOrigin, master, directives),
+  )
+
+  if (!isPlaylistOk(result)) {
+    return new NextResponse(`#EXTM3U\n#EXT-X-ERROR:${result.error ?? `Upstream ${result.status}`}`, {
       status: 502,
       headers: { ...CORS, "Content-Type": "application/vnd.apple.mpegurl" },
     })
   }
 
+  return playlistResponse(result.body, cache)
+}
+
+// Channel settings that only affect master playlists
+interface MasterOptions {
+  variants?: VariantRules
+  renditions?: RenditionRules
+}
+
+async function fetchChannelPlaylist(
+  channel: Channel,
+  proxyOrigin: string,
+  master: MasterOptions,
+  directives: URLSearchParams,
+): Promise<PlaylistResult> {
+  // Sub-requests look the custom headers up again by channel ID
+  const ref: HeaderRef = { channelId: channel.id }
+  return fetchWithFailover(channel, (sourceUrl) =>
+    fetchPlaylist(
+      withDirectives(sourceUrl, directives),
+      buildFetchHeaders(sourceUrl, channel.customHeaders),
+      proxyOrigin,
+      ref,
+      master,
+    ),
+  )
+}
+
+// ── Source failover ────────────────────────────────────────────────────────
+// Tries the channel's sources starting with the one that worked last and
+// wrapping around the list. The first usable result wins and its source is
+// remembered for the next request. A channel marked "stalled" starts at the
+// next source instead, and a stalled playlist is only served when no other
+// source has anything better.
+async function fetchWithFailover(
+  channel: Channel,
+  fetchSource: (sourceUrl: string) => Promise<PlaylistResult>,
+): Promise<PlaylistResult> {
+  const sources = getChannelSources(channel)
+  const active = getActiveSourceIndex(channel)
+  const start = channel.status === "stalled" && sources.length > 1 ? active + 1 : active
+
+  let stalledResult: PlaylistResult | null = null
+  let lastResult: PlaylistResult | null = null
+  let lastError: unknown = null
+
+  for (let n = 0; n < sources.length; n++) {
+    const index = (start + n) % sources.length
+    try {
+      const result = await fetchSource(sources[index])
+      if (isPlaylistOk(result) && !result.stalled) {
+        if (index !== active) {
+          console.warn(`[proxy] Channel ${channel.id} failed over to source #${index + 1}`)
+          // Progress of the old source's playlists no longer says anything about this channel
+          forgetSequences(`proxy|${channel.id}|`)
+          await recordChannelState(channel.id, { activeSourceIndex: index, status: "unknown" })
+        }
+        return result
+      }
+      if (isPlaylistOk(result)) stalledResult ??= result
+      lastResult = result
+    } catch (e) {
+      lastError = e
+    }
+  }
+
+  if (stalledResult) return stalledResult
+  if (lastResult) return lastResult
+  throw lastError ?? new Error("No sources configured")
+}
+
+// Failover and stall bookkeeping. The origin has already answered, so a
+// storage failure must not fail the request; it is reported by /api/storage.
+async function recordChannelState(channelId: string, updates: Partial<Channel>): Promise<void> {
+  await updateChannel(channelId, updates).catch(() => {})
+}
+
+// ── DASH entry point ───────────────────────────────────────────────────────
+// Same failover as playlists. Dynamic manifests are refreshed on the player's
+// own schedule (minimumUpdatePeriod), so concurrent requests are coalesced
+// but the result is not kept.
+async function handleChannelManifest(channelId: string, proxyOrigin: string) {
+  const channel = await getChannel(channelId)
+
+  if (!channel) {
+    return new NextResponse("Channel not found", { status: 404, headers: CORS })
+  }
+  if (getChannelType(channel) !== "dash") return wrongEntryPoint(channel)
+
+  const ref: HeaderRef = { channelId: channel.id }
+  const { result, cache } = await loadPlaylist(`mpd|${channel.id}|${proxyOrigin}`, () =>
+    fetchWithFailover(channel, (sourceUrl) =>
+      fetchManifest(sourceUrl, buildFetchHeaders(sourceUrl, channel.customHeaders), proxyOrigin, ref),
+    ),
+  )
+
+  if (!isPlaylistOk(result)) {
+    return new NextResponse(result.error ?? `Upstream ${result.status}`, { status: 502, headers: CORS })
+  }
+
+  return playlistResponse(result.body, cache, MPD_CONTENT_TYPE)
+}
+
+async function fetchManifest(
+  targetUrl: string,
+  fetchHeaders: Record<string, string>,
+  proxyOrigin: string,
+  ref: HeaderRef,
+): Promise<PlaylistResult> {
+  const res = await fetchRetry(targetUrl, fetchHeaders, new AbortController().signal)
+
+  if (!res.ok) {
+    await res.body?.cancel()
+    return { status: res.status, body: "", ttlMs: 0 }
+  }
+
   const body = await res.text()
-  const baseUrl = getBaseUrl(channel.sourceUrl)
+  if (!isMpd(body)) return { status: res.status, body: "", ttlMs: 0, error: "Not a DASH manifest" }
+
+  return { status: res.status, body: rewriteMpd(body, res.url || targetUrl, proxyOrigin, ref), ttlMs: 0 }
+}
 
-  // Encode custom headers once for all sub-requests
-  const hParam = channel.customHeaders
-    ? encodeURIComponent(JSON.stringify(channel.customHeaders))
-    : undefined
+// ── Continuous stream entry point (MPEG-TS, progressive) ───────────────────
+// The origin body never ends, so it is neither cached nor shared: every viewer
+// gets its own upstream connection and the body is piped through untouched.
+// The client pulls the stream, so a slow viewer slows its upstream download
+// rather than piling data up in memory, and a viewer leaving aborts it.
+async function handleChannelStream(channelId: string, request: NextRequest) {
+  const channel = await getChannel(channelId)
+
+  if (!channel) {
+    return new NextResponse("Channel not found", { status: 404, headers: CORS })
+  }
+  if (request.nextUrl.pathname !== getEntryPath(channel)) return wrongEntryPoint(channel)
+
+  let res: Response
+  try {
+    res = await openChannelStream(channel, request.signal)
+  } catch (e) {
+    if (e instanceof BlockedTargetError || request.signal.aborted) throw e
+    return new NextResponse(e instanceof Error ? e.message : "Upstream failed", { status: 502, headers: CORS })
+  }
+  return new NextResponse(res.body, { headers: streamHeaders(channel, res.headers) })
+}
+
+// Same failover order as playlists, but a source only has to answer 2xx
+async function openChannelStream(channel: Channel, signal: AbortSignal): Promise<Response> {
+  const sources = getChannelSources(channel)
+  const active = getActiveSourceIndex(channel)
+  let lastError: unknown = null
+
+  for (let n = 0; n < sources.length; n++) {
+    const index = (active + n) % sources.length
+    const sourceUrl = sources[index]
+    try {
+      const fetchHeaders = buildFetchHeaders(sourceUrl, channel.customHeaders)
+      const res = await fetchChecked(sourceUrl, fetchHeaders, signal)
+      if (!res.ok || !res.body) {
+        await res.body?.cancel()
+        lastError = new Error(`Upstream ${res.status}`)
+        continue
+      }
+
+      if (index !== active) {
+        console.warn(`[proxy] Channel ${channel.id} failed over to source #${index + 1}`)
+        await recordChannelState(channel.id, { activeSourceIndex: index })
+      }
+      return res
+    } catch (e) {
+      if (e instanceof BlockedTargetError || signal.aborted) throw e
+      lastError = e
+    }
+  }
+
+  throw lastError ?? new Error("No sources configured")
+}
+
+// ── Repackaged MPEG-TS (HLS for browser players) ───────────────────────────
+// The session re-reads the channel on every reconnect, so source edits apply
+// the next time the origin stream is opened.
+async function handleLivePlaylist(channel: Channel, proxyOrigin: string) {
+  const session = getLiveSession(channel.id, async (signal) => {
+    const current = await getChannel(channel.id)
+    if (!current) throw new Error("Channel not found")
+    return openChannelStream(current, signal)
+  })
+
+  try {
+    await session.ready()
+  } catch (e) {
+    const msg = e instanceof Error ? e.message : "Origin stream failed"
+    return new NextResponse(`#EXTM3U\n#EXT-X-ERROR:${msg}`, {
+      status: 502,
+      headers: { ...CORS, "Content-Type": "application/vnd.apple.mpegurl" },
+    })
+  }
 
-  const rewritten = rewritePlaylist(body, baseUrl, proxyOrigin, hParam)
+  const segmentUrl = (sequence: number) =>
+    `${proxyOrigin}/api/proxy/live/${encodeURIComponent(channel.id)}/${sequence}.ts`
+  return playlistResponse(session.playlist(segmentUrl))
+}
 
-  return new NextResponse(rewritten, {
+function handleLiveSegment(channelId: string, sequence: number) {
+  const segment = findLiveSession(channelId)?.segment(sequence)
+  if (!segment) {
+    return new NextResponse("Segment not available", { status: 404, headers: CORS })
+  }
+  return new NextResponse(segment.data, {
     headers: {
       ...CORS,
-      "Content-Type": "application/vnd.apple.mpegurl",
-      "Cache-Control": "no-cache, no-store, must-revalidate",
+      "Content-Type": "video/mp2t",
+      "Content-Length": segment.data.byteLength.toString(),
+      // Sequence numbers start over with every new session
+      "Cache-Control": "no-cache",
     },
   })
 }
 
-// ── Resource proxy (segments, sub-playlists, keys, etc.) ───────────────────
-async function handleResourceProxy(
-  encodedUrl: string,
+function streamHeaders(channel: Channel, upstream: Headers): Record<string, string> {
+  const fallback = getChannelType(channel) === "mpegts" ? "video/mp2t" : "application/octet-stream"
+  const headers: Record<string, string> = {
+    ...CORS,
+    "Content-Type": upstream.get("content-type") || fallback,
+    "Cache-Control": "no-cache, no-store, must-revalidate",
+  }
+  // Icecast/Shoutcast station details (icy-name, icy-br, icy-metaint, ...)
+  for (const [name, value] of upstream) {
+    if (name.startsWith("icy-")) headers[name] = value
+  }
+  return headers
+}
+
+// A channel is only served at the entry point of its type
+function wrongEntryPoint(channel: Channel): NextResponse {
+  return new NextResponse(`Channel is served at ${getEntryPath(channel)}`, { status: 404, headers: CORS })
+}
+
+// ── Playlist fetch + rewrite (shared by concurrent viewers) ────────────────
+// Runs detached from any single client request, so it is not tied to the
+// abort signal of whichever viewer happened to trigger it.
+async function fetchPlaylist(
+  targetUrl: string,
+  fetchHeaders: Record<string, string>,
   proxyOrigin: string,
-  headersParam?: string,
-) {
-  let targetUrl: string
+  ref: HeaderRef,
+  master: MasterOptions = {},
+): Promise<PlaylistResult> {
+  const res = await fetchRetry(targetUrl, fetchHeaders, new AbortController().signal)
+
+  if (!res.ok) {
+    await res.body?.cancel()
+    return { status: res.status, body: "", ttlMs: 0 }
+  }
+
+  return processPlaylist(res.status, await res.text(), res.url || targetUrl, targetUrl, proxyOrigin, ref, master)
+}
+
+// Parses, checks and rewrites a playlist the origin answered with. `servedFrom`
+// is the URL after redirects, `targetUrl` the one asked for.
+async function processPlaylist(
+  status: number,
+  text: string,
+  servedFrom: string,
+  targetUrl: string,
+  proxyOrigin: string,
+  ref: HeaderRef,
+  master: MasterOptions,
+): Promise<PlaylistResult> {
+  let playlist: Playlist
   try {
-    targetUrl = Buffer.from(encodedUrl, "base64url").toString("utf-8")
+    playlist = parsePlaylist(text)
   } catch {
-    return new NextResponse("Invalid URL encoding", { status: 400, headers: CORS })
+    return { status, body: "", ttlMs: 0, error: "Not an HLS playlist" }
+  }
+  const error = playlistProblem(playlist)
+  if (error) return { status, body: "", ttlMs: 0, error }
+
+  // Blocking reloads of one playlist all count as that playlist
+  const stalled = ref.channelId
+    ? await trackProgress(ref.channelId, withDirectives(targetUrl, new URLSearchParams()), playlist)
+    : false
+
+  // Relative URIs resolve against where the playlist actually came from,
+  // which after a CDN redirect is not the URL we asked for
+  const rewritten = rewritePlaylist(
+    applyVariantRules(playlist, master.variants),
+    servedFrom,
+    proxyOrigin,
+    ref,
+    master.renditions,
+  )
+  return { status, body: rewritten, ttlMs: playlistTtlMs(playlist), stalled }
+}
+
+// ── Stall detection ────────────────────────────────────────────────────────
+// Feeds every origin media playlist into the sequence tracker and flips the
+// channel between "stalled" and "online" as its progress changes. Only
+// transitions are written to the store.
+async function trackProgress(channelId: string, playlistUrl: string, playlist: Playlist): Promise<boolean> {
+  const info = sequenceInfo(playlist)
+  if (!info) return false
+
+  const progress = observeSequence(`proxy|${channelId}|${playlistUrl}`, info)
+  if (progress === "unknown") return false
+
+  const channel = await getChannel(channelId)
+  if (!channel) return progress === "stalled"
+
+  if (progress === "stalled" && channel.status !== "stalled") {
+    console.warn(`[proxy] Channel ${channelId} stalled at media sequence ${info.mediaSequence}`)
+    await recordChannelState(channelId, { status: "stalled", lastChecked: new Date().toISOString() })
+  } else if (progress === "advancing" && channel.status === "stalled") {
+    await recordChannelState(channelId, { status: "online", lastChecked: new Date().toISOString() })
+  }
+  return progress === "stalled"
+}
+
+// A parseable playlist can still be useless: a live media playlist that lost
+// all its segments, or a master without a single variant
+function playlistProblem(playlist: Playlist): string | undefined {
+  if (playlist.type === "media" && playlist.segments.length === 0) return "Playlist has no segments"
+  if (playlist.type === "master" && playlist.variants.length === 0) return "Playlist has no variants"
+  return undefined
+}
+
+// Resource proxy answer for an upstream error or an unusable playlist
+function playlistError(result: PlaylistResult): NextResponse {
+  return new NextResponse(result.error ?? `Upstream ${result.status}`, {
+    status: result.status >= 400 && result.status < 500 ? result.status : 502,
+    headers: CORS,
+  })
+}
+
+function playlistResponse(
+  body: string,
+  cache?: PlaylistCacheStatus,
+  contentType = "application/vnd.apple.mpegurl",
+): NextResponse {
+  const headers: Record<string, string> = {
+    ...CORS,
+    "Content-Type": contentType,
+    "Cache-Control": "no-cache, no-store, must-revalidate",
   }
+  if (cache) headers["X-Cache"] = cache
+  return new NextResponse(body, { headers })
+}
 
+// ── Resource proxy (segments, sub-playlists, keys, etc.) ───────────────────
+async function handleResourceProxy(
+  targetUrl: string,
+  proxyOrigin: string,
+  ref: HeaderRef,
+  request: NextRequest,
+) {
   if (!targetUrl.startsWith("http://") && !targetUrl.startsWith("https://")) {
     return new NextResponse("Invalid URL scheme", { status: 400, headers: CORS })
   }
 
-  // Parse optional custom headers
+  // Blocking reloads and delta updates requested by an LL-HLS player. The
+  // directives end up in targetUrl, so cache and coalescing keys include them.
+  const directives = deliveryDirectives(request.nextUrl.searchParams)
+  if (directives.size > 0) targetUrl = withDirectives(targetUrl, directives)
+
+  // Resolve custom headers: by channel reference, or legacy inline ?h=
   let customHeaders: Record<string, string> | undefined
-  if (headersParam) {
+  if (ref.channelId) {
+    const channel = await getChannel(ref.channelId)
+    if (!channel) {
+      return new NextResponse("Channel not found", { status: 404, headers: CORS })
+    }
+    customHeaders = channel.customHeaders
+  } else if (ref.legacyHeaders) {
     try {
-      customHeaders = JSON.parse(decodeURIComponent(headersParam))
+      customHeaders = JSON.parse(decodeURIComponent(ref.legacyHeaders))
     } catch { /* ignore */ }
   }
 
+  // Forward byte-range requests so upstreams that support them answer 206
+  const rangeHeader = request.headers.get("range")
+  const ifRangeHeader = request.headers.get("if-range")
   const fetchHeaders = buildFetchHeaders(targetUrl, customHeaders)
-  const res = await fetchRetry(targetUrl, fetchHeaders)
+  if (rangeHeader) fetchHeaders.Range = rangeHeader
+  if (rangeHeader && ifRangeHeader) fetchHeaders["If-Range"] = ifRangeHeader
+
+  // Playlists by URL go through the playlist cache: one origin request per
+  // refresh window no matter how many viewers poll
+  if (!rangeHeader && isPlaylistPath(targetUrl)) {
+    const key = `${ref.channelId ?? ref.legacyHeaders ?? ""}|${proxyOrigin}|${targetUrl}`
+    const { result, cache } = await loadPlaylist(key, () =>
+      fetchPlaylist(targetUrl, fetchHeaders, proxyOrigin, ref),
+    )
+    return isPlaylistOk(result) ? playlistResponse(result.body, cache) : playlistError(result)
+  }
 
-  if (!res.ok) {
+  // Segments already in the shared cache never reach the origin
+  const cache = getSegmentCache()
+  const cached = cache.get(targetUrl)
+  if (cached) {
+    return serveCached(cached, targetUrl, rangeHeader, ifRangeHeader)
+  }
+
+  // Whole-object requests are coalesced: concurrent viewers share one
+  // upstream download. Range requests each want different bytes.
+  const res = rangeHeader
+    ? unsharedResponse(await fetchRetry(targetUrl, fetchHeaders, request.signal))
+    : await cache.fetch(
+        targetUrl,
+        (signal) => fetchRetry(targetUrl, fetchHeaders, signal),
+        (upstream) => !isManifestContent(upstream.headers.get("content-type") || "", targetUrl),
+      )
+
+  if (res.status < 200 || res.status >= 300) {
+    res.release()
+    const errorHeaders: Record<string, string> = { ...CORS }
+    const upstreamRange = res.headers.get("content-range")
+    if (res.status === 416 && upstreamRange) errorHeaders["Content-Range"] = upstreamRange
     return new NextResponse(`Upstream ${res.status}`, {
       status: res.status >= 400 && res.status < 500 ? res.status : 502,
-      headers: CORS,
+      headers: errorHeaders,
     })
   }
 
   const contentType = res.headers.get("content-type") || ""
 
-  // If this is a playlist (sub-playlist / variant), rewrite it too
+  // A playlist served from a URL without a playlist extension: handled like
+  // one requested by URL, only not cached
   if (isPlaylistContent(contentType, targetUrl)) {
+    const text = await res.text()
+    const result = await processPlaylist(res.status, text, res.url || targetUrl, targetUrl, proxyOrigin, ref, {})
+    return isPlaylistOk(result) ? playlistResponse(result.body) : playlistError(result)
+  }
+
+  // DASH manifests fetched through the resource proxy (multi-period
+  // references, manifests behind a redirecting entry URL)
+  if (isMpdContent(contentType, targetUrl)) {
     const body = await res.text()
-    const baseUrl = getBaseUrl(targetUrl)
-    const rewritten = rewritePlaylist(body, baseUrl, proxyOrigin, headersParam)
-
-    return new NextResponse(rewritten, {
-      headers: {
-        ...CORS,
-        "Content-Type": "application/vnd.apple.mpegurl",
-        "Cache-Control": "no-cache, no-store, must-revalidate",
-      },
-    })
+    return playlistResponse(rewriteMpd(body, res.url || targetUrl, proxyOrigin, ref), undefined, MPD_CONTENT_TYPE)
   }
 
   // Binary passthrough for .ts segments, .aac, .mp4, .key, .vtt, etc.
-  const buffer = await res.arrayBuffer()
+  // The upstream body is streamed as it arrives; when the client goes away
+  // the response stream is cancelled, which aborts the upstream fetch once no
+  // other viewer is reading it.
   const responseHeaders: Record<string, string> = {
     ...CORS,
     "Content-Type": detectContentType(targetUrl, contentType),
-    "Content-Length": buffer.byteLength.toString(),
     "Cache-Control": "public, max-age=600, immutable",
+    "Accept-Ranges": "bytes",
+    "X-Cache": res.coalesced ? "HIT-COALESCED" : "MISS",
+    ...validatorHeaders(validatorsOf(res.headers)),
+  }
+
+  const size = knownLength(res.headers)
+  if (size !== null) responseHeaders["Content-Length"] = size.toString()
+
+  // Upstream honored the range: pass the partial response through
+  if (res.status === 206) {
+    const upstreamRange = res.headers.get("content-range")
+    if (upstreamRange) responseHeaders["Content-Range"] = upstreamRange
+    return new NextResponse(res.stream(), { status: 206, headers: responseHeaders })
   }
 
-  return new NextResponse(buffer, { headers: responseHeaders })
+  // Upstream ignored the range: emulate it by slicing the full body
+  if (rangeHeader && ifRangeMatches(ifRangeHeader, validatorsOf(res.headers))) {
+    return await emulateRange(res, rangeHeader, size, responseHeaders)
+  }
+
+  return new NextResponse(res.stream(), { headers: responseHeaders })
 }
 
-// ── Playlist rewriting ─────────────────────────────────────────────────────
-// Rewrites every URI (segment paths, sub-playlist paths, URI="..." in tags)
-// to go through /api/proxy/s?url=BASE64
-function rewritePlaylist(
-  content: string,
-  baseUrl: string,
-  proxyOrigin: string,
-  headersParam?: string,
-): string {
-  const lines = content.split("\n")
-  const result: string[] = []
-
-  for (const rawLine of lines) {
-    const line = rawLine.trimEnd()
-
-    // Rewrite URI="..." inside tags like #EXT-X-KEY, #EXT-X-MAP, #EXT-X-MEDIA
-    if (line.startsWith("#") && /URI\s*=\s*"/i.test(line)) {
-      const rewritten = line.replace(/URI\s*=\s*"([^"]+)"/gi, (_, uri) => {
-        const proxyUrl = makeProxyUrl(uri, baseUrl, proxyOrigin, headersParam)
-        return `URI="${proxyUrl}"`
-      })
-      result.push(rewritten)
-      continue
-    }
+function serveCached(
+  cached: CachedSegment,
+  targetUrl: string,
+  rangeHeader: string | null,
+  ifRangeHeader: string | null,
+): NextResponse {
+  const total = cached.body.byteLength
+  const headers: Record<string, string> = {
+    ...CORS,
+    "Content-Type": detectContentType(targetUrl, cached.contentType),
+    "Cache-Control": "public, max-age=600, immutable",
+    "Accept-Ranges": "bytes",
+    "Content-Length": total.toString(),
+    "X-Cache": "HIT",
+    ...validatorHeaders(cached.validators),
+  }
 
-    // Pass-through comment/tag lines and empty lines
-    if (line.startsWith("#") || line.trim().length === 0) {
-      result.push(line)
-      continue
-    }
+  // A stale validator gets the whole body, like on a miss
+  const range = ifRangeMatches(ifRangeHeader, cached.validators) ? parseRange(rangeHeader, total) : null
+  if (range === "unsatisfiable") {
+    return new NextResponse(null, { status: 416, headers: { ...CORS, "Content-Range": `bytes */${total}` } })
+  }
+  if (range) {
+    headers["Content-Range"] = contentRange(range, total)
+    headers["Content-Length"] = (range.end - range.start + 1).toString()
+    return new NextResponse(cached.body.slice(range.start, range.end + 1), { status: 206, headers })
+  }
+  return new NextResponse(cached.body, { headers })
+}
 
-    // This is a URI line (segment .ts, sub-playlist .m3u8, etc.)
-    const proxyUrl = makeProxyUrl(line.trim(), baseUrl, proxyOrigin, headersParam)
-    result.push(proxyUrl)
+// ── Range emulation ────────────────────────────────────────────────────────
+async function emulateRange(
+  res: SharedResponse,
+  rangeHeader: string,
+  size: number | null,
+  headers: Record<string, string>,
+): Promise<NextResponse> {
+  // Without a length we cannot place the range, so read the whole body first.
+  // Only up to the size of a cache entry: a longer body is passed through
+  // whole, as if the range had not been asked for.
+  let buffered: Uint8Array | null = null
+  let total = size
+  if (total === null) {
+    const body = await readUpTo(res.stream(), config.segmentCacheMaxEntryBytes)
+    if (body instanceof ReadableStream) return new NextResponse(body, { headers })
+    buffered = body
+    total = buffered.byteLength
   }
 
-  return result.join("\n")
+  const range = parseRange(rangeHeader, total)
+
+  if (range === null) {
+    if (buffered) headers["Content-Length"] = total.toString()
+    return new NextResponse(buffered ?? res.stream(), { headers })
+  }
+
+  if (range === "unsatisfiable") {
+    if (!buffered) res.release()
+    return new NextResponse(null, {
+      status: 416,
+      headers: { ...CORS, "Content-Range": `bytes */${total}` },
+    })
+  }
+
+  headers["Content-Range"] = contentRange(range, total)
+  headers["Content-Length"] = (range.end - range.start + 1).toString()
+  const body = buffered ? buffered.slice(range.start, range.end + 1) : sliceStream(res.stream(), range)
+  return new NextResponse(body, { status: 206, headers })
 }
 
-function makeProxyUrl(
-  uri: string,
-  baseUrl: string,
-  proxyOrigin: string,
-  headersParam?: string,
-): string {
-  const absolute = resolveUrl(uri, baseUrl)
-  const encoded = Buffer.from(absolute, "utf-8").toString("base64url")
-  let proxyUrl = `${proxyOrigin}/api/proxy/s?url=${encoded}`
-  if (headersParam) proxyUrl += `&h=${headersParam}`
-  return proxyUrl
-}
-
-// ── URL resolution ─────────────────────────────────────────────────────────
-function resolveUrl(uri: string, baseUrl: string): string {
-  // Already absolute
-  if (uri.startsWith("http://") || uri.startsWith("https://")) return uri
-  // Protocol-relative
-  if (uri.startsWith("//")) return "https:" + uri
-  // Absolute path
-  if (uri.startsWith("/")) {
-    try {
-      const u = new URL(baseUrl)
-      return `${u.protocol}//${u.host}${uri}`
-    } catch {
-      return baseUrl + uri
-    }
+// If-Range: serve the range only while the client's validator still matches
+function ifRangeMatches(ifRange: string | null, validators: Validators): boolean {
+  if (!ifRange) return true
+  const { etag } = validators
+  if (ifRange.startsWith('"') || ifRange.startsWith("W/")) {
+    return etag !== undefined && !etag.startsWith("W/") && etag === ifRange
+  }
+  return validators.lastModified === ifRange
+}
+
+// Passed on to the client, so it has something to send back in If-Range
+function validatorHeaders(validators: Validators): Record<string, string> {
+  const headers: Record<string, string> = {}
+  if (validators.etag) headers.ETag = validators.etag
+  if (validators.lastModified) headers["Last-Modified"] = validators.lastModified
+  return headers
+}
+
+// fetch transparently decompresses, so an encoded length would be wrong
+function knownLength(headers: Headers): number | null {
+  const contentLength = headers.get("content-length")
+  const contentEncoding = headers.get("content-encoding")
+  if (!contentLength || (contentEncoding && contentEncoding !== "identity")) return null
+  const length = Number(contentLength)
+  return Number.isSafeInteger(length) && length >= 0 ? length : null
+}
+
+// ── LL-HLS delivery directives ─────────────────────────────────────────────
+// Query parameters a player adds to a playlist URL (RFC 8216bis §6.2.5):
+// _HLS_msn/_HLS_part make the origin hold the response until that segment or
+// part exists, _HLS_skip asks for a delta update.
+const DELIVERY_DIRECTIVES = ["_HLS_msn", "_HLS_part", "_HLS_skip"]
+
+function deliveryDirectives(query: URLSearchParams): URLSearchParams {
+  const directives = new URLSearchParams()
+  for (const name of DELIVERY_DIRECTIVES) {
+    const value = query.get(name)
+    if (value !== null) directives.set(name, value)
   }
-  // Relative path — append to base directory
-  return baseUrl + uri
+  return directives
+}
+
+// Replaces whatever directives `url` carries with the given ones
+function withDirectives(url: string, directives: URLSearchParams): string {
+  const u = new URL(url)
+  if (!DELIVERY_DIRECTIVES.some((name) => u.searchParams.has(name)) && directives.size === 0) return url
+  for (const name of DELIVERY_DIRECTIVES) u.searchParams.delete(name)
+  for (const [name, value] of directives) u.searchParams.set(name, value)
+  return u.toString()
 }
 
-function getBaseUrl(fullUrl: string): string {
-  const i = fullUrl.lastIndexOf("/")
-  return i > 8 ? fullUrl.substring(0, i + 1) : fullUrl + "/"
+function isBlockingReload(url: string): boolean {
+  return URL.canParse(url) && new URL(url).searchParams.has("_HLS_msn")
 }
 
 // ── Fetch with retry ───────────────────────────────────────────────────────
+// A blocking reload is held by the origin for up to a few target durations,
+// so it gets a longer header timeout and no retries: the player asks again.
 async function fetchRetry(
   url: string,
   headers: Record<string, string>,
+  signal: AbortSignal,
   retries = 2,
 ): Promise<Response> {
+  const blocking = isBlockingReload(url)
+  if (blocking) retries = 0
+  const headersTimeoutMs = blocking ? config.blockingReloadTimeoutMs : HEADERS_TIMEOUT_MS
+
   let lastErr: Error | null = null
   for (let i = 0; i <= retries; i++) {
     try {
-      return await fetch(url, {
-        headers,
-        cache: "no-store",
-        redirect: "follow",
-        signal: AbortSignal.timeout(15000),
-      })
+      return await fetchChecked(url, headers, signal, headersTimeoutMs)
     } catch (e) {
+      // A denied target will not become allowed by retrying, and nobody is
+      // waiting for an aborted request
+      if (e instanceof BlockedTargetError || signal.aborted) throw e
       lastErr = e as Error
       if (i < retries) await new Promise((r) => setTimeout(r, 500 * (i + 1)))
     }
@@ -309,9 +895,24 @@ function buildFetchHeaders(
 function isPlaylistContent(contentType: string, url: string): boolean {
   const ct = contentType.toLowerCase()
   if (ct.includes("mpegurl") || ct.includes("m3u")) return true
+  return isPlaylistPath(url)
+}
+
+function isPlaylistPath(url: string): boolean {
   const path = url.split("?")[0].toLowerCase()
-  if (path.endsWith(".m3u8") || path.endsWith(".m3u")) return true
-  return false
+  return path.endsWith(".m3u8") || path.endsWith(".m3u")
+}
+
+const MPD_CONTENT_TYPE = "application/dash+xml"
+
+function isMpdContent(contentType: string, url: string): boolean {
+  if (contentType.toLowerCase().includes("dash+xml")) return true
+  return url.split("?")[0].toLowerCase().endsWith(".mpd")
+}
+
+// Manifests are rewritten per request and never go into the segment cache
+function isManifestContent(contentType: string, url: string): boolean {
+  return isPlaylistContent(contentType, url) || isMpdContent(contentType, url)
 }
 
 function detectContentType(url: string, fallback: string): string {
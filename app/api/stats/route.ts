@@ -0,0 +1,11 @@
+import { NextResponse } from "next/server"
+import { getSegmentCache } from "@/lib/segment-cache"
+
+export const dynamic = "force-dynamic"
+
+// Proxy runtime counters, e.g. how much origin bandwidth the segment cache saved
+export async function GET() {
+  return NextResponse.json({
+    segmentCache: getSegmentCache().stats(),
+  })
+}
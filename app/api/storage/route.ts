@@ -0,0 +1,15 @@
+import { NextResponse } from "next/server"
+import { getChannels, getStoreStatus } from "@/lib/channels"
+import { getHistoryStatus } from "@/lib/health-history"
+
+export const dynamic = "force-dynamic"
+
+// Health of the channel storage (and of the health history, under `history`),
+// shown by the dashboard. Reads the channel list first, so a broken store is
+// reported even before anything writes to it.
+export async function GET() {
+  await getChannels().catch(() => {})
+  const status = getStoreStatus()
+  const history = getHistoryStatus()
+  return NextResponse.json({ ...status, history }, { status: status.ok && history.ok ? 200 : 503 })
+}
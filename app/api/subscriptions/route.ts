@@ -0,0 +1,101 @@
+import { NextResponse } from "next/server"
+import type { ZodError } from "zod"
+import { updateChannels } from "@/lib/channels"
+import { ChannelStoreError } from "@/lib/channel-store"
+import { subscriptionCreateSchema, subscriptionUpdateSchema } from "@/lib/channel-schema"
+import { syncSubscription } from "@/lib/subscription-sync"
+import {
+  addSubscription,
+  getSubscriptions,
+  removeSubscription,
+  updateSubscription,
+  type Subscription,
+} from "@/lib/subscriptions"
+
+export const dynamic = "force-dynamic"
+
+export async function GET() {
+  try {
+    return NextResponse.json(await getSubscriptions())
+  } catch (e) {
+    console.error("[subscriptions] GET /api/subscriptions error:", e)
+    return failure(e, "Failed to load subscriptions")
+  }
+}
+
+// Creates the subscription and syncs it right away; a failed first sync is
+// reported in lastSync, the subscription is kept
+export async function POST(request: Request) {
+  try {
+    const body = await request.json().catch(() => null)
+    const parsed = subscriptionCreateSchema.safeParse(body)
+    if (!parsed.success) return invalidBody(parsed.error)
+
+    const { name, url, rules } = parsed.data
+    const subscription = await addSubscription(name, url, rules)
+    const lastSync = await syncSubscription(subscription.id)
+    return NextResponse.json({ ...subscription, lastSync: lastSync ?? undefined }, { status: 201 })
+  } catch (e) {
+    return failure(e, "Failed to add subscription")
+  }
+}
+
+export async function PATCH(request: Request) {
+  try {
+    const id = new URL(request.url).searchParams.get("id")
+    if (!id) {
+      return NextResponse.json({ error: "Subscription ID is required" }, { status: 400 })
+    }
+
+    const body = await request.json().catch(() => null)
+    const parsed = subscriptionUpdateSchema.safeParse(body)
+    if (!parsed.success) return invalidBody(parsed.error)
+
+    // Rules come back whole, defaults filled in, and replace the old ones
+    const { name, url, rules } = parsed.data
+    const updates: Partial<Subscription> = {}
+    if (name !== undefined) updates.name = name
+    if (url !== undefined) updates.url = url
+    if (rules !== undefined) updates.rules = rules
+    const subscription = await updateSubscription(id, updates)
+    if (!subscription) {
+      return NextResponse.json({ error: "Subscription not found" }, { status: 404 })
+    }
+    return NextResponse.json(subscription)
+  } catch (e) {
+    return failure(e, "Failed to update subscription")
+  }
+}
+
+// The subscription's channels stay, unlinked: they become ordinary channels
+export async function DELETE(request: Request) {
+  try {
+    const id = new URL(request.url).searchParams.get("id")
+    if (!id) {
+      return NextResponse.json({ error: "Subscription ID is required" }, { status: 400 })
+    }
+
+    await removeSubscription(id)
+    await updateChannels((channels) => ({
+      channels: channels.map((c) =>
+        c.subscriptionId === id ? { ...c, subscriptionId: undefined, missingSince: undefined } : c,
+      ),
+      result: undefined,
+    }))
+    return NextResponse.json({ success: true })
+  } catch (e) {
+    return failure(e, "Failed to delete subscription")
+  }
+}
+
+function invalidBody(error: ZodError) {
+  return NextResponse.json(
+    { error: error.issues[0]?.message ?? "Invalid request body", issues: error.issues },
+    { status: 400 },
+  )
+}
+
+function failure(e: unknown, message: string) {
+  if (e instanceof ChannelStoreError) return NextResponse.json({ error: e.message }, { status: 503 })
+  return NextResponse.json({ error: message }, { status: 500 })
+}
@@ -0,0 +1,30 @@
+import { NextResponse } from "next/server"
+import { syncSubscription } from "@/lib/subscription-sync"
+import { getSubscriptions, type SyncResult } from "@/lib/subscriptions"
+
+export const dynamic = "force-dynamic"
+
+// Syncs one subscription now (?id=...), or every one without an id. Failed
+// syncs are part of the answer, like in the scheduled run.
+export async function POST(request: Request) {
+  try {
+    const id = new URL(request.url).searchParams.get("id")
+    if (id) {
+      const result = await syncSubscription(id)
+      if (!result) {
+        return NextResponse.json({ error: "Subscription not found" }, { status: 404 })
+      }
+      return NextResponse.json(result)
+    }
+
+    const results: Record<string, SyncResult> = {}
+    for (const subscription of await getSubscriptions()) {
+      const result = await syncSubscription(subscription.id)
+      if (result) results[subscription.id] = result
+    }
+    return NextResponse.json(results)
+  } catch (e) {
+    console.error("[subscriptions] Sync request failed:", e)
+    return NextResponse.json({ error: "Failed to sync subscriptions" }, { status: 500 })
+  }
+}
@@ -1,17 +1,22 @@
 "use client"
 
-import React from "react"
+import React, { useState } from "react"
 
 import useSWR, { mutate } from "swr"
-import { Radio, Tv, Zap, Shield, Download } from "lucide-react"
+import { Radio, Tv, Zap, Shield, Download, Upload } from "lucide-react"
 import { Button } from "@/components/ui/button"
 import { ChannelForm } from "@/components/channel-form"
+import { ChannelImportDialog } from "@/components/channel-import-dialog"
 import { ChannelList } from "@/components/channel-list"
+import { StorageAlert } from "@/components/storage-alert"
+import { SubscriptionPanel } from "@/components/subscription-panel"
+import type { ChannelCreateInput, ChannelUpdateInput } from "@/lib/channel-schema"
 import type { Channel } from "@/lib/channels"
 
+// Failing loads keep the last list on screen; StorageAlert explains why
 const fetcher = (url: string) =>
   fetch(url).then((r) => {
-    if (!r.ok) return []
+    if (!r.ok) throw new Error("Failed to load channels")
     return r.json()
   }).then((data) => (Array.isArray(data) ? data : []))
 
@@ -21,20 +26,40 @@ export default function DashboardPage() {
     fallbackData: [],
   })
   const channels = Array.isArray(data) ? data : []
+  const [importing, setImporting] = useState(false)
 
-  async function handleAdd(name: string, sourceUrl: string) {
+  async function handleAdd(input: ChannelCreateInput) {
     const res = await fetch("/api/channels", {
       method: "POST",
       headers: { "Content-Type": "application/json" },
-      body: JSON.stringify({ name, sourceUrl }),
+      body: JSON.stringify(input),
     })
-    if (!res.ok) throw new Error("Failed to add")
+    if (!res.ok) {
+      void mutate("/api/storage")
+      throw new Error("Failed to add")
+    }
+    await mutate("/api/channels")
+  }
+
+  async function handleUpdate(id: string, updates: ChannelUpdateInput) {
+    const res = await fetch(`/api/channels?id=${id}`, {
+      method: "PATCH",
+      headers: { "Content-Type": "application/json" },
+      body: JSON.stringify(updates),
+    })
+    if (!res.ok) {
+      void mutate("/api/storage")
+      throw new Error("Failed to update")
+    }
     await mutate("/api/channels")
   }
 
   async function handleDelete(id: string) {
     const res = await fetch(`/api/channels?id=${id}`, { method: "DELETE" })
-    if (!res.ok) throw new Error("Failed to delete")
+    if (!res.ok) {
+      void mutate("/api/storage")
+      throw new Error("Failed to delete")
+    }
     await mutate("/api/channels")
   }
 
@@ -53,6 +78,10 @@ export default function DashboardPage() {
             </div>
           </div>
           <div className="flex items-center gap-3">
+            <Button variant="outline" size="sm" className="gap-2 text-xs bg-transparent" onClick={() => setImporting(true)}>
+              <Upload className="h-3.5 w-3.5" />
+              Importar M3U
+            </Button>
             {channels.length > 0 && (
               <a href="/api/export" download="channels.m3u">
                 <Button variant="outline" size="sm" className="gap-2 text-xs bg-transparent">
@@ -70,6 +99,8 @@ export default function DashboardPage() {
       </header>
 
       <main className="mx-auto max-w-6xl px-6 py-8">
+        <StorageAlert />
+
         {/* Stats Row */}
         <div className="grid grid-cols-1 sm:grid-cols-3 gap-4 mb-8">
           <StatsCard
@@ -93,6 +124,15 @@ export default function DashboardPage() {
               <ChannelForm onAdd={handleAdd} />
             </div>
 
+            {/* Subscriptions Panel */}
+            <div className="mt-4 rounded-xl border border-border bg-card p-6">
+              <div className="flex items-center gap-2 mb-6">
+                <div className="h-1.5 w-1.5 rounded-full bg-primary" />
+                <h2 className="text-sm font-semibold text-foreground uppercase tracking-wider">Suscripciones M3U</h2>
+              </div>
+              <SubscriptionPanel />
+            </div>
+
             {/* Info Panel */}
             <div className="mt-4 rounded-xl border border-border bg-card p-6">
               <h3 className="text-xs font-semibold text-muted-foreground uppercase tracking-wider mb-3">
@@ -140,12 +180,20 @@ export default function DashboardPage() {
                   <span className="text-sm">Cargando canales...</span>
                 </div>
               ) : (
-                <ChannelList channels={channels} onDelete={handleDelete} />
+                <ChannelList channels={channels} onDelete={handleDelete} onUpdate={handleUpdate} />
               )}
             </div>
           </div>
         </div>
       </main>
+
+      <ChannelImportDialog
+        open={importing}
+        onOpenChange={setImporting}
+        onImported={async () => {
+          await mutate("/api/channels")
+        }}
+      />
     </div>
   )
 }
@@ -4,6 +4,7 @@ import { Suspense, useEffect, useRef, useState, useCallback } from "react"
 import { useSearchParams } from "next/navigation"
 import { ArrowLeft, Volume2, VolumeX, Maximize, Signal, AlertTriangle, RotateCcw } from "lucide-react"
 import useSWR from "swr"
+import { getChannelType, getPlaybackPath } from "@/lib/channel-sources"
 import type { Channel } from "@/lib/channels"
 
 const fetcher = (url: string) =>
@@ -21,10 +22,13 @@ function PlayerContent() {
   const [errorMsg, setErrorMsg] = useState("")
   const [retryCount, setRetryCount] = useState(0)
 
-  const { data: channels = [] } = useSWR<Channel[]>("/api/channels", fetcher)
+  const { data: channels = [], isLoading } = useSWR<Channel[]>("/api/channels", fetcher)
   const channel = channels.find((c) => c.id === channelId)
 
-  const proxyUrl = channelId ? `/api/proxy/${channelId}.m3u8` : null
+  // The entry point depends on the channel type, so wait for the channel list
+  const type = channel ? getChannelType(channel) : "hls"
+  const proxyUrl = channelId && !isLoading ? getPlaybackPath({ id: channelId, type }) : null
+  const lowLatency = channel?.lowLatency ?? false
 
   const initPlayer = useCallback(async () => {
     if (!proxyUrl || !videoRef.current) return
@@ -39,8 +43,15 @@ function PlayerContent() {
       hlsRef.current = null
     }
 
-    // Check native HLS support (Safari/iOS)
-    if (video.canPlayType("application/vnd.apple.mpegurl")) {
+    // Browsers have no DASH demuxer
+    if (type === "dash") {
+      setStatus("error")
+      setErrorMsg("Este tipo de canal no se puede reproducir en el navegador, usa la URL proxy en VLC o una app IPTV")
+      return
+    }
+
+    // Progressive streams play natively, as does HLS on Safari/iOS
+    if (type === "progressive" || video.canPlayType("application/vnd.apple.mpegurl")) {
       video.src = proxyUrl
       video.addEventListener(
         "loadedmetadata",
@@ -78,7 +89,7 @@ function PlayerContent() {
         liveMaxLatencyDurationCount: 10,
         liveDurationInfinity: true,
         enableWorker: true,
-        lowLatencyMode: false,
+        lowLatencyMode: lowLatency,
         fragLoadingTimeOut: 30000,
         fragLoadingMaxRetry: 8,
         fragLoadingRetryDelay: 1000,
@@ -137,7 +148,7 @@ function PlayerContent() {
       setStatus("error")
       setErrorMsg("Error al inicializar el reproductor")
     }
-  }, [proxyUrl, status])
+  }, [proxyUrl, status, lowLatency, type])
 
   useEffect(() => {
     initPlayer()
@@ -148,7 +159,7 @@ function PlayerContent() {
       }
     }
     // eslint-disable-next-line react-hooks/exhaustive-deps
-  }, [proxyUrl, retryCount])
+  }, [proxyUrl, retryCount, lowLatency])
 
   function toggleMute() {
     if (videoRef.current) {
@@ -0,0 +1,237 @@
+"use client"
+
+import { useEffect, useState } from "react"
+import { useForm } from "react-hook-form"
+import { zodResolver } from "@hookform/resolvers/zod"
+import { z } from "zod"
+import { Loader2, Save } from "lucide-react"
+import { Button } from "@/components/ui/button"
+import { Input } from "@/components/ui/input"
+import { Switch } from "@/components/ui/switch"
+import { Textarea } from "@/components/ui/textarea"
+import {
+  Dialog,
+  DialogContent,
+  DialogDescription,
+  DialogFooter,
+  DialogHeader,
+  DialogTitle,
+} from "@/components/ui/dialog"
+import { Form, FormControl, FormField, FormItem, FormLabel, FormMessage } from "@/components/ui/form"
+import { HeadersEditor, headersToRows, rowsToHeaders } from "@/components/headers-editor"
+import { isHttpUrl, parseUrlList } from "@/components/channel-form"
+import { VariantRulesEditor, fieldsToRules, rulesToFields } from "@/components/variant-rules-editor"
+import { RenditionRulesEditor, fieldsToRenditions, renditionsToFields } from "@/components/rendition-rules-editor"
+import { ChannelTypeSelect } from "@/components/channel-type-select"
+import { CHANNEL_TYPES, getChannelSources, getChannelType } from "@/lib/channel-sources"
+import type { Channel } from "@/lib/channels"
+import type { ChannelUpdateInput } from "@/lib/channel-schema"
+
+const editSchema = z.object({
+  name: z.string().trim().min(1, "El nombre es obligatorio"),
+  type: z.enum(CHANNEL_TYPES),
+  // One URL per line, in failover order
+  sources: z
+    .string()
+    .refine((v) => parseUrlList(v).length > 0, "Se necesita al menos una URL")
+    .refine((v) => parseUrlList(v).every(isHttpUrl), "La URL debe comenzar con http:// o https://"),
+  customHeaders: z.array(z.object({ key: z.string(), value: z.string() })).superRefine((rows, ctx) => {
+    const { error } = rowsToHeaders(rows)
+    if (error) ctx.addIssue({ code: z.ZodIssueCode.custom, message: error })
+  }),
+  variantRules: z
+    .object({ maxHeight: z.string(), maxKbps: z.string(), minKbps: z.string(), codecs: z.string(), prefer: z.string() })
+    .superRefine((fields, ctx) => {
+      const { error } = fieldsToRules(fields)
+      if (error) ctx.addIssue({ code: z.ZodIssueCode.custom, message: error })
+    }),
+  renditionRules: z
+    .object({ audioLanguages: z.string(), subtitleLanguages: z.string(), stripOthers: z.boolean() })
+    .superRefine((fields, ctx) => {
+      const { error } = fieldsToRenditions(fields)
+      if (error) ctx.addIssue({ code: z.ZodIssueCode.custom, message: error })
+    }),
+  lowLatency: z.boolean(),
+})
+
+type ChannelEditValues = z.infer<typeof editSchema>
+
+interface ChannelEditDialogProps {
+  channel: Channel | null
+  onOpenChange: (open: boolean) => void
+  onSave: (id: string, updates: ChannelUpdateInput) => Promise<void>
+}
+
+export function ChannelEditDialog({ channel, onOpenChange, onSave }: ChannelEditDialogProps) {
+  const [error, setError] = useState("")
+  const form = useForm<ChannelEditValues>({
+    resolver: zodResolver(editSchema),
+    defaultValues: {
+      name: "",
+      type: "hls",
+      sources: "",
+      customHeaders: [],
+      variantRules: rulesToFields(),
+      renditionRules: renditionsToFields(),
+      lowLatency: false,
+    },
+  })
+
+  // Reload the form whenever a different channel is opened
+  useEffect(() => {
+    if (channel) {
+      form.reset({
+        name: channel.name,
+        type: getChannelType(channel),
+        sources: getChannelSources(channel).join("\n"),
+        customHeaders: headersToRows(channel.customHeaders),
+        variantRules: rulesToFields(channel.variantRules),
+        renditionRules: renditionsToFields(channel.renditionRules),
+        lowLatency: channel.lowLatency ?? false,
+      })
+      setError("")
+    }
+  }, [channel, form])
+
+  async function handleSubmit(values: ChannelEditValues) {
+    if (!channel) return
+    setError("")
+    try {
+      await onSave(channel.id, {
+        name: values.name,
+        type: values.type,
+        sources: parseUrlList(values.sources),
+        customHeaders: rowsToHeaders(values.customHeaders).headers,
+        variantRules: fieldsToRules(values.variantRules).rules,
+        renditionRules: fieldsToRenditions(values.renditionRules).rules,
+        lowLatency: values.lowLatency,
+      })
+      onOpenChange(false)
+    } catch {
+      setError("Error al guardar el canal")
+    }
+  }
+
+  const saving = form.formState.isSubmitting
+
+  return (
+    <Dialog open={channel !== null} onOpenChange={onOpenChange}>
+      <DialogContent className="max-h-[90vh] overflow-y-auto sm:max-w-lg">
+        <DialogHeader>
+          <DialogTitle>Editar Canal</DialogTitle>
+          <DialogDescription>
+            El ID y la URL proxy se mantienen mientras no cambie el tipo de stream, los reproductores no necesitan cambios.
+          </DialogDescription>
+        </DialogHeader>
+        <Form {...form}>
+          <form onSubmit={form.handleSubmit(handleSubmit)} className="flex flex-col gap-4">
+            <FormField
+              control={form.control}
+              name="name"
+              render={({ field }) => (
+                <FormItem>
+                  <FormLabel className="text-sm text-muted-foreground">Nombre del Canal</FormLabel>
+                  <FormControl>
+                    <Input {...field} className="bg-muted/50 border-border text-foreground font-mono text-sm" />
+                  </FormControl>
+                  <FormMessage />
+                </FormItem>
+              )}
+            />
+            <FormField
+              control={form.control}
+              name="type"
+              render={({ field }) => (
+                <FormItem>
+                  <FormLabel className="text-sm text-muted-foreground">Tipo de Stream</FormLabel>
+                  <ChannelTypeSelect value={field.value} onChange={field.onChange} />
+                  <FormMessage />
+                </FormItem>
+              )}
+            />
+            <FormField
+              control={form.control}
+              name="sources"
+              render={({ field }) => (
+                <FormItem>
+                  <FormLabel className="text-sm text-muted-foreground">
+                    Fuentes <span className="text-xs opacity-60">(una por linea, en orden de prioridad)</span>
+                  </FormLabel>
+                  <FormControl>
+                    <Textarea
+                      {...field}
+                      rows={3}
+                      className="bg-muted/50 border-border text-foreground font-mono text-xs"
+                    />
+                  </FormControl>
+                  <FormMessage />
+                </FormItem>
+              )}
+            />
+            <FormField
+              control={form.control}
+              name="customHeaders"
+              render={({ field }) => (
+                <FormItem>
+                  <FormLabel className="text-sm text-muted-foreground">Headers Personalizados</FormLabel>
+                  <HeadersEditor rows={field.value} onChange={field.onChange} />
+                  <FormMessage />
+                </FormItem>
+              )}
+            />
+            <FormField
+              control={form.control}
+              name="variantRules"
+              render={({ field }) => (
+                <FormItem>
+                  <FormLabel className="text-sm text-muted-foreground">
+                    Variantes <span className="text-xs opacity-60">(solo playlists maestras)</span>
+                  </FormLabel>
+                  <VariantRulesEditor fields={field.value} onChange={field.onChange} />
+                  <FormMessage />
+                </FormItem>
+              )}
+            />
+            <FormField
+              control={form.control}
+              name="renditionRules"
+              render={({ field }) => (
+                <FormItem>
+                  <FormLabel className="text-sm text-muted-foreground">
+                    Idiomas preferidos <span className="text-xs opacity-60">(en orden de preferencia)</span>
+                  </FormLabel>
+                  <RenditionRulesEditor fields={field.value} onChange={field.onChange} />
+                  <FormMessage />
+                </FormItem>
+              )}
+            />
+            <FormField
+              control={form.control}
+              name="lowLatency"
+              render={({ field }) => (
+                <FormItem className="flex items-center justify-between gap-4 space-y-0">
+                  <FormLabel className="text-sm text-muted-foreground">
+                    Baja latencia <span className="text-xs opacity-60">(LL-HLS en el reproductor)</span>
+                  </FormLabel>
+                  <FormControl>
+                    <Switch checked={field.value} onCheckedChange={field.onChange} />
+                  </FormControl>
+                </FormItem>
+              )}
+            />
+            {error && <p className="text-sm text-destructive">{error}</p>}
+            <DialogFooter>
+              <Button type="button" variant="outline" onClick={() => onOpenChange(false)} disabled={saving}>
+                Cancelar
+              </Button>
+              <Button type="submit" disabled={saving} className="gap-2 font-semibold">
+                {saving ? <Loader2 className="h-4 w-4 animate-spin" /> : <Save className="h-4 w-4" />}
+                {saving ? "Guardando..." : "Guardar"}
+              </Button>
+            </DialogFooter>
+          </form>
+        </Form>
+      </DialogContent>
+    </Dialog>
+  )
+}
@@ -7,14 +7,34 @@ import { Plus, Loader2 } from "lucide-react"
 import { Button } from "@/components/ui/button"
 import { Input } from "@/components/ui/input"
 import { Label } from "@/components/ui/label"
+import { Textarea } from "@/components/ui/textarea"
+import { HeadersEditor, rowsToHeaders, type HeaderRow } from "@/components/headers-editor"
+import { ChannelTypeSelect } from "@/components/channel-type-select"
+import type { ChannelCreateInput } from "@/lib/channel-schema"
+import type { ChannelType } from "@/lib/channels"
 
 interface ChannelFormProps {
-  onAdd: (name: string, sourceUrl: string) => Promise<void>
+  onAdd: (input: ChannelCreateInput) => Promise<void>
+}
+
+// One URL per line, blank lines ignored
+export function parseUrlList(text: string): string[] {
+  return text
+    .split("\n")
+    .map((l) => l.trim())
+    .filter(Boolean)
+}
+
+export function isHttpUrl(url: string): boolean {
+  return url.startsWith("http://") || url.startsWith("https://")
 }
 
 export function ChannelForm({ onAdd }: ChannelFormProps) {
   const [name, setName] = useState("")
+  const [type, setType] = useState<ChannelType>("hls")
   const [sourceUrl, setSourceUrl] = useState("")
+  const [backupUrls, setBackupUrls] = useState("")
+  const [headerRows, setHeaderRows] = useState<HeaderRow[]>([])
   const [loading, setLoading] = useState(false)
   const [error, setError] = useState("")
 
@@ -27,16 +47,31 @@ export function ChannelForm({ onAdd }: ChannelFormProps) {
       return
     }
 
-    if (!sourceUrl.startsWith("http://") && !sourceUrl.startsWith("https://")) {
+    const sources = [sourceUrl.trim(), ...parseUrlList(backupUrls)]
+    if (!sources.every(isHttpUrl)) {
       setError("La URL debe comenzar con http:// o https://")
       return
     }
 
+    const { headers, error: headersError } = rowsToHeaders(headerRows)
+    if (headersError) {
+      setError(headersError)
+      return
+    }
+
     setLoading(true)
     try {
-      await onAdd(name.trim(), sourceUrl.trim())
+      await onAdd({
+        name: name.trim(),
+        type,
+        sources,
+        customHeaders: Object.keys(headers).length > 0 ? headers : undefined,
+      })
       setName("")
+      setType("hls")
       setSourceUrl("")
+      setBackupUrls("")
+      setHeaderRows([])
     } catch {
       setError("Error al agregar el canal")
     } finally {
@@ -58,9 +93,13 @@ export function ChannelForm({ onAdd }: ChannelFormProps) {
           className="bg-muted/50 border-border text-foreground placeholder:text-muted-foreground/50 font-mono text-sm"
         />
       </div>
+      <div className="flex flex-col gap-2">
+        <Label className="text-sm text-muted-foreground">Tipo de Stream</Label>
+        <ChannelTypeSelect value={type} onChange={setType} />
+      </div>
       <div className="flex flex-col gap-2">
         <Label htmlFor="source-url" className="text-sm text-muted-foreground">
-          URL M3U8 de Origen
+          URL de Origen
         </Label>
         <Input
           id="source-url"
@@ -70,6 +109,23 @@ export function ChannelForm({ onAdd }: ChannelFormProps) {
           className="bg-muted/50 border-border text-foreground placeholder:text-muted-foreground/50 font-mono text-sm"
         />
       </div>
+      <div className="flex flex-col gap-2">
+        <Label htmlFor="backup-urls" className="text-sm text-muted-foreground">
+          URLs de Respaldo <span className="text-xs opacity-60">(opcional, una por linea)</span>
+        </Label>
+        <Textarea
+          id="backup-urls"
+          placeholder="https://respaldo.ejemplo.com/canal.m3u8"
+          value={backupUrls}
+          onChange={(e) => setBackupUrls(e.target.value)}
+          rows={2}
+          className="bg-muted/50 border-border text-foreground placeholder:text-muted-foreground/50 font-mono text-xs"
+        />
+      </div>
+      <div className="flex flex-col gap-2">
+        <Label className="text-sm text-muted-foreground">Headers Personalizados</Label>
+        <HeadersEditor rows={headerRows} onChange={setHeaderRows} />
+      </div>
       {error && <p className="text-sm text-destructive">{error}</p>}
       <Button type="submit" disabled={loading} className="w-full gap-2 font-semibold">
         {loading ? <Loader2 className="h-4 w-4 animate-spin" /> : <Plus className="h-4 w-4" />}
@@ -0,0 +1,113 @@
+"use client"
+
+import useSWR from "swr"
+import { Area, AreaChart, CartesianGrid, XAxis, YAxis } from "recharts"
+import { ChartContainer, ChartTooltip, ChartTooltipContent, type ChartConfig } from "@/components/ui/chart"
+import type { HealthSample, HealthSummary } from "@/lib/health-history"
+
+interface HealthResponse extends HealthSummary {
+  channelId: string
+  history: HealthSample[]
+}
+
+const chartConfig = {
+  latency: {
+    label: "Latencia (ms)",
+    color: "hsl(168, 80%, 45%)",
+  },
+} satisfies ChartConfig
+
+const fetcher = (url: string) =>
+  fetch(url).then((r) => {
+    if (!r.ok) throw new Error("Failed to load health history")
+    return r.json()
+  })
+
+export function ChannelHealth({ channelId }: { channelId: string }) {
+  const { data, error, isLoading } = useSWR<HealthResponse>(`/api/channels/${channelId}/health`, fetcher, {
+    refreshInterval: 30000,
+  })
+
+  if (isLoading) {
+    return <p className="text-xs text-muted-foreground">Cargando historial...</p>
+  }
+
+  if (error || !data) {
+    return <p className="text-xs text-destructive">No se pudo cargar el historial</p>
+  }
+
+  const dayAgo = Date.now() - 24 * 60 * 60 * 1000
+  const points = data.history
+    .filter((s) => new Date(s.timestamp).getTime() >= dayAgo)
+    .map((s) => ({
+      time: new Date(s.timestamp).getTime(),
+      latency: s.ok ? (s.latencyMs ?? null) : null,
+    }))
+
+  return (
+    <div className="flex flex-col gap-3">
+      <div className="grid grid-cols-2 sm:grid-cols-4 gap-2">
+        <HealthStat label="Uptime 24h" value={formatPercent(data.uptime24h)} />
+        <HealthStat label="Uptime 7d" value={formatPercent(data.uptime7d)} />
+        <HealthStat label="Latencia p50" value={formatMs(data.latencyP50)} />
+        <HealthStat label="Latencia p95" value={formatMs(data.latencyP95)} />
+      </div>
+      {points.length === 0 ? (
+        <p className="text-xs text-muted-foreground">Sin verificaciones en las ultimas 24h</p>
+      ) : (
+        <ChartContainer config={chartConfig} className="aspect-auto h-32 w-full">
+          <AreaChart data={points} margin={{ left: 0, right: 8, top: 4, bottom: 0 }}>
+            <CartesianGrid vertical={false} />
+            <XAxis
+              dataKey="time"
+              type="number"
+              domain={["dataMin", "dataMax"]}
+              tickLine={false}
+              axisLine={false}
+              tickFormatter={(t: number) =>
+                new Date(t).toLocaleTimeString([], { hour: "2-digit", minute: "2-digit" })
+              }
+            />
+            <YAxis width={40} tickLine={false} axisLine={false} />
+            <ChartTooltip
+              content={
+                <ChartTooltipContent
+                  labelFormatter={(_, payload) => {
+                    const time = payload?.[0]?.payload?.time
+                    return time ? new Date(time).toLocaleString() : ""
+                  }}
+                />
+              }
+            />
+            <Area
+              dataKey="latency"
+              type="monotone"
+              stroke="var(--color-latency)"
+              fill="var(--color-latency)"
+              fillOpacity={0.2}
+              connectNulls={false}
+              isAnimationActive={false}
+            />
+          </AreaChart>
+        </ChartContainer>
+      )}
+    </div>
+  )
+}
+
+function HealthStat({ label, value }: { label: string; value: string }) {
+  return (
+    <div className="rounded-md border border-border bg-card px-3 py-2">
+      <p className="text-[10px] uppercase tracking-wider text-muted-foreground">{label}</p>
+      <p className="text-sm font-bold text-foreground font-mono">{value}</p>
+    </div>
+  )
+}
+
+function formatPercent(value: number | null): string {
+  return value === null ? "-" : `${value.toFixed(1)}%`
+}
+
+function formatMs(value: number | null): string {
+  return value === null ? "-" : `${value}ms`
+}
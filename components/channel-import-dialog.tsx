@@ -0,0 +1,286 @@
+"use client"
+
+import { useState } from "react"
+import { ArrowLeft, FileUp, Link2, Loader2, Upload } from "lucide-react"
+import { Button } from "@/components/ui/button"
+import { Checkbox } from "@/components/ui/checkbox"
+import { Input } from "@/components/ui/input"
+import { Tabs, TabsContent, TabsList, TabsTrigger } from "@/components/ui/tabs"
+import {
+  Dialog,
+  DialogContent,
+  DialogDescription,
+  DialogFooter,
+  DialogHeader,
+  DialogTitle,
+} from "@/components/ui/dialog"
+import { isHttpUrl } from "@/components/channel-form"
+import { CHANNEL_TYPE_LABELS } from "@/components/channel-type-select"
+import type { GuideField, ImportCandidate } from "@/lib/channel-import"
+import type { ChannelCreateInput } from "@/lib/channel-schema"
+
+// M3U attribute behind each ImportCandidate field
+const GUIDE_ATTRIBUTES: Record<GuideField, string> = {
+  tvgId: "tvg-id",
+  tvgName: "tvg-name",
+  group: "group-title",
+}
+
+interface ChannelImportDialogProps {
+  open: boolean
+  onOpenChange: (open: boolean) => void
+  onImported: () => Promise<void>
+}
+
+interface Preview {
+  entries: ImportCandidate[]
+  unsupported: number
+}
+
+export function ChannelImportDialog({ open, onOpenChange, onImported }: ChannelImportDialogProps) {
+  const [source, setSource] = useState<"file" | "url">("file")
+  const [file, setFile] = useState<File | null>(null)
+  const [url, setUrl] = useState("")
+  const [preview, setPreview] = useState<Preview | null>(null)
+  const [selected, setSelected] = useState<Set<number>>(new Set())
+  const [loading, setLoading] = useState(false)
+  const [error, setError] = useState("")
+
+  function reset() {
+    setFile(null)
+    setUrl("")
+    setPreview(null)
+    setSelected(new Set())
+    setError("")
+  }
+
+  function handleOpenChange(next: boolean) {
+    if (!next) reset()
+    onOpenChange(next)
+  }
+
+  async function handlePreview() {
+    setError("")
+    if (source === "url" && !isHttpUrl(url.trim())) {
+      setError("La URL debe comenzar con http:// o https://")
+      return
+    }
+    if (source === "file" && !file) {
+      setError("Selecciona un archivo M3U")
+      return
+    }
+
+    setLoading(true)
+    try {
+      let body: BodyInit
+      const headers: HeadersInit = {}
+      if (source === "file") {
+        const form = new FormData()
+        form.append("file", file as File)
+        body = form
+      } else {
+        body = JSON.stringify({ url: url.trim() })
+        headers["Content-Type"] = "application/json"
+      }
+
+      const res = await fetch("/api/channels/import", { method: "POST", headers, body })
+      const data = await res.json()
+      if (!res.ok) {
+        setError(data.error || "No se pudo leer la lista")
+        return
+      }
+      setPreview(data)
+      // Duplicates and repeated entries start unchecked
+      setSelected(
+        new Set(
+          (data.entries as ImportCandidate[]).flatMap((e, i) => (e.duplicate || e.repeatOf !== undefined ? [] : [i])),
+        ),
+      )
+    } catch {
+      setError("No se pudo leer la lista")
+    } finally {
+      setLoading(false)
+    }
+  }
+
+  async function handleImport() {
+    if (!preview) return
+    setError("")
+    setLoading(true)
+    try {
+      const channels = preview.entries.filter((_, i) => selected.has(i)).map(toChannelInput)
+      const res = await fetch("/api/channels/import", {
+        method: "POST",
+        headers: { "Content-Type": "application/json" },
+        body: JSON.stringify({ channels }),
+      })
+      if (!res.ok) {
+        const data = await res.json().catch(() => ({}))
+        setError(data.error || "Error al importar los canales")
+        return
+      }
+      await onImported()
+      handleOpenChange(false)
+    } catch {
+      setError("Error al importar los canales")
+    } finally {
+      setLoading(false)
+    }
+  }
+
+  function toggle(index: number, checked: boolean) {
+    setSelected((prev) => {
+      const next = new Set(prev)
+      if (checked) next.add(index)
+      else next.delete(index)
+      return next
+    })
+  }
+
+  const allSelected = preview !== null && selected.size === preview.entries.length
+
+  return (
+    <Dialog open={open} onOpenChange={handleOpenChange}>
+      <DialogContent className="max-h-[90vh] flex flex-col sm:max-w-2xl">
+        <DialogHeader>
+          <DialogTitle>Importar Lista M3U</DialogTitle>
+          <DialogDescription>
+            Se leen los atributos tvg-id, tvg-name, tvg-logo y group-title, y las opciones #EXTVLCOPT de referer y
+            user-agent como headers personalizados.
+          </DialogDescription>
+        </DialogHeader>
+
+        {!preview ? (
+          <Tabs value={source} onValueChange={(v) => setSource(v as "file" | "url")}>
+            <TabsList className="grid w-full grid-cols-2">
+              <TabsTrigger value="file" className="gap-2 text-xs">
+                <FileUp className="h-3.5 w-3.5" />
+                Archivo
+              </TabsTrigger>
+              <TabsTrigger value="url" className="gap-2 text-xs">
+                <Link2 className="h-3.5 w-3.5" />
+                URL
+              </TabsTrigger>
+            </TabsList>
+            <TabsContent value="file">
+              <Input
+                type="file"
+                accept=".m3u,.m3u8,audio/x-mpegurl,application/x-mpegurl"
+                onChange={(e) => setFile(e.target.files?.[0] ?? null)}
+                className="bg-muted/50 border-border text-sm"
+              />
+            </TabsContent>
+            <TabsContent value="url">
+              <Input
+                placeholder="https://proveedor.com/lista.m3u"
+                value={url}
+                onChange={(e) => setUrl(e.target.value)}
+                className="bg-muted/50 border-border text-foreground font-mono text-sm"
+              />
+            </TabsContent>
+          </Tabs>
+        ) : (
+          <div className="flex min-h-0 flex-col gap-2">
+            <div className="flex items-center justify-between text-xs text-muted-foreground">
+              <label className="flex items-center gap-2">
+                <Checkbox
+                  checked={allSelected}
+                  onCheckedChange={(checked) =>
+                    setSelected(checked === true ? new Set(preview.entries.map((_, i) => i)) : new Set())
+                  }
+                />
+                {selected.size} de {preview.entries.length} seleccionados
+              </label>
+              {preview.unsupported > 0 && (
+                <span>{preview.unsupported} entradas sin URL http(s) omitidas</span>
+              )}
+            </div>
+            <div className="min-h-0 flex-1 overflow-y-auto rounded-lg border border-border">
+              {preview.entries.map((entry, i) => (
+                <label
+                  key={i}
+                  className="flex items-center gap-3 border-b border-border px-3 py-2 last:border-b-0 hover:bg-muted/30"
+                >
+                  <Checkbox checked={selected.has(i)} onCheckedChange={(checked) => toggle(i, checked === true)} />
+                  {entry.logoUrl ? (
+                    // eslint-disable-next-line @next/next/no-img-element
+                    <img src={entry.logoUrl} alt="" className="h-6 w-6 shrink-0 rounded object-contain" />
+                  ) : (
+                    <div className="h-6 w-6 shrink-0 rounded bg-muted" />
+                  )}
+                  <div className="flex min-w-0 flex-1 flex-col">
+                    <div className="flex items-center gap-2 min-w-0">
+                      <span className="truncate text-sm font-medium text-foreground">{entry.name}</span>
+                      {entry.group && (
+                        <span className="shrink-0 rounded border border-border px-1.5 py-0.5 text-[10px] text-muted-foreground">
+                          {entry.group}
+                        </span>
+                      )}
+                      {entry.type !== "hls" && (
+                        <span className="shrink-0 rounded bg-muted px-1.5 py-0.5 text-[10px] font-semibold text-muted-foreground">
+                          {CHANNEL_TYPE_LABELS[entry.type]}
+                        </span>
+                      )}
+                      {entry.truncated && (
+                        <span
+                          className="shrink-0 text-[10px] font-semibold text-yellow-400"
+                          title={`Demasiado largo, se recorto: ${entry.truncated.map((f) => GUIDE_ATTRIBUTES[f]).join(", ")}`}
+                        >
+                          Recortado
+                        </span>
+                      )}
+                    </div>
+                    <span className="truncate text-[10px] font-mono text-muted-foreground">{entry.url}</span>
+                  </div>
+                  {entry.duplicate ? (
+                    <span
+                      className="shrink-0 text-[10px] font-semibold text-yellow-400"
+                      title={entry.duplicate.by === "url" ? "Misma URL" : "Mismo tvg-id"}
+                    >
+                      Ya existe: {entry.duplicate.channelName}
+                    </span>
+                  ) : entry.repeatOf !== undefined ? (
+                    <span className="shrink-0 text-[10px] font-semibold text-yellow-400">Repetido en la lista</span>
+                  ) : null}
+                </label>
+              ))}
+            </div>
+          </div>
+        )}
+
+        {error && <p className="text-xs text-destructive">{error}</p>}
+
+        <DialogFooter className="gap-2">
+          {preview ? (
+            <>
+              <Button variant="outline" onClick={() => setPreview(null)} disabled={loading} className="gap-2">
+                <ArrowLeft className="h-4 w-4" />
+                Volver
+              </Button>
+              <Button onClick={handleImport} disabled={loading || selected.size === 0} className="gap-2">
+                {loading ? <Loader2 className="h-4 w-4 animate-spin" /> : <Upload className="h-4 w-4" />}
+                Importar {selected.size} {selected.size === 1 ? "canal" : "canales"}
+              </Button>
+            </>
+          ) : (
+            <Button onClick={handlePreview} disabled={loading} className="gap-2">
+              {loading && <Loader2 className="h-4 w-4 animate-spin" />}
+              Vista previa
+            </Button>
+          )}
+        </DialogFooter>
+      </DialogContent>
+    </Dialog>
+  )
+}
+
+function toChannelInput(entry: ImportCandidate): ChannelCreateInput {
+  const input: ChannelCreateInput = { name: entry.name, type: entry.type, sourceUrl: entry.url }
+  if (Object.keys(entry.headers).length > 0) input.customHeaders = entry.headers
+  if (entry.tvgId) input.tvgId = entry.tvgId
+  if (entry.tvgName) input.tvgName = entry.tvgName
+  // Lists often carry placeholder or relative logos; those are left out
+  if (entry.logoUrl && isHttpUrl(entry.logoUrl)) input.logoUrl = entry.logoUrl
+  if (entry.group) input.group = entry.group
+  return input
+}
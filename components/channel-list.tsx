@@ -1,6 +1,7 @@
 "use client"
 
 import { useState } from "react"
+import { mutate } from "swr"
 import {
   Copy,
   Trash2,
@@ -12,34 +13,51 @@ import {
   Wifi,
   WifiOff,
   Activity,
+  ChartLine,
+  Pencil,
 } from "lucide-react"
 import { Button } from "@/components/ui/button"
+import { ChannelHealth } from "@/components/channel-health"
+import { ChannelEditDialog } from "@/components/channel-edit-dialog"
+import { CHANNEL_TYPE_LABELS } from "@/components/channel-type-select"
+import type { ChannelUpdateInput } from "@/lib/channel-schema"
+import {
+  getActiveSource,
+  getActiveSourceIndex,
+  getChannelSources,
+  getChannelType,
+  getEntryPath,
+} from "@/lib/channel-sources"
 import type { Channel } from "@/lib/channels"
 
 interface ChannelListProps {
   channels: Channel[]
   onDelete: (id: string) => Promise<void>
+  onUpdate: (id: string, updates: ChannelUpdateInput) => Promise<void>
 }
 
 interface TestResult {
   ok: boolean
   error?: string
   latencyMs?: number
+  isM3u8?: boolean
   isMaster?: boolean
   isMedia?: boolean
   segmentCount?: number
 }
 
-export function ChannelList({ channels, onDelete }: ChannelListProps) {
+export function ChannelList({ channels, onDelete, onUpdate }: ChannelListProps) {
   const [copiedId, setCopiedId] = useState<string | null>(null)
   const [deletingId, setDeletingId] = useState<string | null>(null)
   const [testingId, setTestingId] = useState<string | null>(null)
   const [testResults, setTestResults] = useState<Record<string, TestResult>>({})
+  const [historyId, setHistoryId] = useState<string | null>(null)
+  const [editing, setEditing] = useState<Channel | null>(null)
 
   function getProxyUrl(channel: Channel) {
     if (typeof window === "undefined") return ""
     const origin = window.location.origin
-    return `${origin}/api/proxy/${channel.id}.m3u8`
+    return `${origin}${getEntryPath(channel)}`
   }
 
   function getPlayerUrl(channel: Channel) {
@@ -69,10 +87,11 @@ export function ChannelList({ channels, onDelete }: ChannelListProps) {
       const res = await fetch("/api/channels/test", {
         method: "POST",
         headers: { "Content-Type": "application/json" },
-        body: JSON.stringify({ url: channel.sourceUrl }),
+        body: JSON.stringify({ id: channel.id, url: getActiveSource(channel) }),
       })
       const result = await res.json()
       setTestResults((prev) => ({ ...prev, [channel.id]: result }))
+      await mutate("/api/channels")
     } catch {
       setTestResults((prev) => ({
         ...prev,
@@ -98,6 +117,10 @@ export function ChannelList({ channels, onDelete }: ChannelListProps) {
       {channels.map((channel) => {
         const test = testResults[channel.id]
         const isTesting = testingId === channel.id
+        const status = STATUS_STYLES[channel.status ?? "unknown"]
+        const sources = getChannelSources(channel)
+        const activeIndex = getActiveSourceIndex(channel)
+        const type = getChannelType(channel)
 
         return (
           <div
@@ -108,18 +131,52 @@ export function ChannelList({ channels, onDelete }: ChannelListProps) {
             <div className="flex items-center justify-between gap-3">
               <div className="flex items-center gap-3 min-w-0">
                 <div
-                  className={`flex h-2.5 w-2.5 shrink-0 rounded-full ${
-                    test?.ok
-                      ? "bg-green-500 shadow-[0_0_8px_theme(colors.green.500)]"
-                      : test && !test.ok
-                        ? "bg-destructive shadow-[0_0_8px_hsl(0,72%,51%)]"
-                        : "bg-primary shadow-[0_0_8px_hsl(168,80%,45%)]"
-                  }`}
+                  className={`flex h-2.5 w-2.5 shrink-0 rounded-full ${status.dot}`}
+                  title={status.label}
                 />
+                {channel.logoUrl && (
+                  // eslint-disable-next-line @next/next/no-img-element
+                  <img src={channel.logoUrl} alt="" className="h-5 w-5 shrink-0 rounded object-contain" />
+                )}
                 <h3 className="text-sm font-semibold text-foreground truncate">{channel.name}</h3>
                 <span className="text-[10px] text-muted-foreground font-mono shrink-0">{channel.id}</span>
+                {type !== "hls" && (
+                  <span className="shrink-0 rounded bg-muted px-1.5 py-0.5 text-[10px] font-semibold text-muted-foreground">
+                    {CHANNEL_TYPE_LABELS[type]}
+                  </span>
+                )}
+                {channel.group && (
+                  <span className="shrink-0 rounded border border-border px-1.5 py-0.5 text-[10px] text-muted-foreground">
+                    {channel.group}
+                  </span>
+                )}
+                {channel.missingSince && (
+                  <span
+                    className="shrink-0 text-[10px] font-semibold text-yellow-400"
+                    title={`Desde ${new Date(channel.missingSince).toLocaleString()}`}
+                  >
+                    Retirado de la lista
+                  </span>
+                )}
+                <span
+                  className={`text-[10px] font-semibold uppercase tracking-wider shrink-0 ${status.text}`}
+                  title={channel.lastChecked ? `Verificado ${formatLastChecked(channel.lastChecked)}` : undefined}
+                >
+                  {status.label}
+                </span>
               </div>
               <div className="flex items-center gap-1 shrink-0">
+                <Button
+                  variant="ghost"
+                  size="icon"
+                  className={`h-8 w-8 hover:text-foreground ${
+                    historyId === channel.id ? "text-primary" : "text-muted-foreground"
+                  }`}
+                  onClick={() => setHistoryId((prev) => (prev === channel.id ? null : channel.id))}
+                  title="Historial de salud"
+                >
+                  <ChartLine className="h-3.5 w-3.5" />
+                </Button>
                 <Button
                   variant="ghost"
                   size="icon"
@@ -147,6 +204,15 @@ export function ChannelList({ channels, onDelete }: ChannelListProps) {
                     <Copy className="h-3.5 w-3.5" />
                   )}
                 </Button>
+                <Button
+                  variant="ghost"
+                  size="icon"
+                  className="h-8 w-8 text-muted-foreground hover:text-foreground"
+                  onClick={() => setEditing(channel)}
+                  title="Editar canal"
+                >
+                  <Pencil className="h-3.5 w-3.5" />
+                </Button>
                 <a href={getPlayerUrl(channel)} target="_blank" rel="noopener noreferrer">
                   <Button
                     variant="ghost"
@@ -180,7 +246,21 @@ export function ChannelList({ channels, onDelete }: ChannelListProps) {
                 <span className="text-[10px] uppercase tracking-wider text-muted-foreground font-semibold shrink-0 w-12">
                   Origen
                 </span>
-                <code className="text-xs text-muted-foreground font-mono truncate">{channel.sourceUrl}</code>
+                <code className="text-xs text-muted-foreground font-mono truncate" title={sources.join("\n")}>
+                  {sources[activeIndex]}
+                </code>
+                {sources.length > 1 && (
+                  <span
+                    className={`shrink-0 rounded px-1.5 py-0.5 text-[10px] font-semibold font-mono ${
+                      activeIndex === 0
+                        ? "bg-muted text-muted-foreground"
+                        : "bg-yellow-500/10 text-yellow-400 border border-yellow-500/20"
+                    }`}
+                    title={activeIndex === 0 ? "Usando la fuente principal" : "Usando una fuente de respaldo"}
+                  >
+                    Fuente {activeIndex + 1}/{sources.length}
+                  </span>
+                )}
               </div>
               <div className="flex items-center gap-2">
                 <span className="text-[10px] uppercase tracking-wider text-primary font-semibold shrink-0 w-12">
@@ -210,7 +290,8 @@ export function ChannelList({ channels, onDelete }: ChannelListProps) {
                 {test.ok ? <Wifi className="h-3.5 w-3.5 shrink-0" /> : <WifiOff className="h-3.5 w-3.5 shrink-0" />}
                 {test.ok ? (
                   <span className="font-mono">
-                    OK - {test.latencyMs}ms - {test.isMaster ? "Master" : "Media"} playlist
+                    OK - {test.latencyMs}ms -{" "}
+                    {test.isM3u8 ? `${test.isMaster ? "Master" : "Media"} playlist` : CHANNEL_TYPE_LABELS[type]}
                     {test.segmentCount ? ` - ${test.segmentCount} items` : ""}
                   </span>
                 ) : (
@@ -218,9 +299,53 @@ export function ChannelList({ channels, onDelete }: ChannelListProps) {
                 )}
               </div>
             )}
+
+            {/* Row 4: Health history (toggled) */}
+            {historyId === channel.id && <ChannelHealth channelId={channel.id} />}
           </div>
         )
       })}
+
+      <ChannelEditDialog
+        channel={editing}
+        onOpenChange={(open) => !open && setEditing(null)}
+        onSave={onUpdate}
+      />
     </div>
   )
 }
+
+const STATUS_STYLES: Record<NonNullable<Channel["status"]>, { label: string; dot: string; text: string }> = {
+  online: {
+    label: "En linea",
+    dot: "bg-green-500 shadow-[0_0_8px_theme(colors.green.500)]",
+    text: "text-green-400",
+  },
+  offline: {
+    label: "Sin conexion",
+    dot: "bg-destructive shadow-[0_0_8px_hsl(0,72%,51%)]",
+    text: "text-destructive",
+  },
+  error: {
+    label: "Error",
+    dot: "bg-destructive shadow-[0_0_8px_hsl(0,72%,51%)]",
+    text: "text-destructive",
+  },
+  stalled: {
+    label: "Estancado",
+    dot: "bg-yellow-500 shadow-[0_0_8px_theme(colors.yellow.500)]",
+    text: "text-yellow-400",
+  },
+  unknown: {
+    label: "Sin verificar",
+    dot: "bg-primary shadow-[0_0_8px_hsl(168,80%,45%)]",
+    text: "text-muted-foreground",
+  },
+}
+
+function formatLastChecked(iso: string): string {
+  const seconds = Math.max(0, Math.round((Date.now() - new Date(iso).getTime()) / 1000))
+  if (seconds < 60) return `hace ${seconds}s`
+  if (seconds < 3600) return `hace ${Math.round(seconds / 60)}min`
+  return new Date(iso).toLocaleString()
+}
@@ -0,0 +1,34 @@
+"use client"
+
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from "@/components/ui/select"
+import { CHANNEL_TYPES } from "@/lib/channel-sources"
+import type { ChannelType } from "@/lib/channels"
+
+export const CHANNEL_TYPE_LABELS: Record<ChannelType, string> = {
+  hls: "HLS (.m3u8)",
+  dash: "MPEG-DASH (.mpd)",
+  mpegts: "MPEG-TS directo",
+  progressive: "HTTP progresivo (Icecast, MP3...)",
+}
+
+interface ChannelTypeSelectProps {
+  value: ChannelType
+  onChange: (type: ChannelType) => void
+}
+
+export function ChannelTypeSelect({ value, onChange }: ChannelTypeSelectProps) {
+  return (
+    <Select value={value} onValueChange={(type) => onChange(type as ChannelType)}>
+      <SelectTrigger className="h-9 bg-muted/50 border-border text-sm">
+        <SelectValue placeholder="Tipo de stream" />
+      </SelectTrigger>
+      <SelectContent>
+        {CHANNEL_TYPES.map((type) => (
+          <SelectItem key={type} value={type} className="text-sm">
+            {CHANNEL_TYPE_LABELS[type]}
+          </SelectItem>
+        ))}
+      </SelectContent>
+    </Select>
+  )
+}
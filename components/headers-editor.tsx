@@ -0,0 +1,123 @@
+"use client"
+
+import { Plus, X } from "lucide-react"
+import { Button } from "@/components/ui/button"
+import { Input } from "@/components/ui/input"
+import { isForbiddenHeader } from "@/lib/channel-schema"
+
+export interface HeaderRow {
+  key: string
+  value: string
+}
+
+// One-click overrides that origins commonly check
+const HEADER_PRESETS: { label: string; key: string; value: string }[] = [
+  { label: "Referer", key: "Referer", value: "https://" },
+  { label: "Origin", key: "Origin", value: "https://" },
+  {
+    label: "UA Chrome",
+    key: "User-Agent",
+    value:
+      "Mozilla/5.0 (Windows NT 10.0; Win64; x64) AppleWebKit/537.36 (KHTML, like Gecko) Chrome/131.0.0.0 Safari/537.36",
+  },
+  { label: "UA VLC", key: "User-Agent", value: "VLC/3.0.21 LibVLC/3.0.21" },
+  {
+    label: "UA Smart TV",
+    key: "User-Agent",
+    value:
+      "Mozilla/5.0 (SMART-TV; Linux; Tizen 6.0) AppleWebKit/537.36 (KHTML, like Gecko) SamsungBrowser/4.0 Chrome/76.0.3809.146 TV Safari/537.36",
+  },
+]
+
+interface HeadersEditorProps {
+  rows: HeaderRow[]
+  onChange: (rows: HeaderRow[]) => void
+}
+
+export function HeadersEditor({ rows, onChange }: HeadersEditorProps) {
+  function update(index: number, patch: Partial<HeaderRow>) {
+    onChange(rows.map((row, i) => (i === index ? { ...row, ...patch } : row)))
+  }
+
+  function applyPreset(preset: (typeof HEADER_PRESETS)[number]) {
+    const existing = rows.findIndex((r) => r.key.trim().toLowerCase() === preset.key.toLowerCase())
+    if (existing === -1) {
+      onChange([...rows, { key: preset.key, value: preset.value }])
+    } else {
+      update(existing, { value: preset.value })
+    }
+  }
+
+  return (
+    <div className="flex flex-col gap-2">
+      {rows.map((row, i) => (
+        <div key={i} className="flex items-center gap-2">
+          <Input
+            placeholder="Header"
+            value={row.key}
+            onChange={(e) => update(i, { key: e.target.value })}
+            className="w-2/5 bg-muted/50 border-border text-foreground placeholder:text-muted-foreground/50 font-mono text-xs"
+          />
+          <Input
+            placeholder="Valor"
+            value={row.value}
+            onChange={(e) => update(i, { value: e.target.value })}
+            className="flex-1 bg-muted/50 border-border text-foreground placeholder:text-muted-foreground/50 font-mono text-xs"
+          />
+          <Button
+            type="button"
+            variant="ghost"
+            size="icon"
+            className="h-8 w-8 shrink-0 text-muted-foreground hover:text-destructive"
+            onClick={() => onChange(rows.filter((_, j) => j !== i))}
+            title="Quitar header"
+          >
+            <X className="h-3.5 w-3.5" />
+          </Button>
+        </div>
+      ))}
+      <div className="flex flex-wrap gap-1.5">
+        <Button
+          type="button"
+          variant="outline"
+          size="sm"
+          className="h-7 gap-1 px-2 text-xs bg-transparent"
+          onClick={() => onChange([...rows, { key: "", value: "" }])}
+        >
+          <Plus className="h-3 w-3" />
+          Header
+        </Button>
+        {HEADER_PRESETS.map((preset) => (
+          <Button
+            key={preset.label}
+            type="button"
+            variant="ghost"
+            size="sm"
+            className="h-7 px-2 text-xs text-muted-foreground hover:text-foreground"
+            onClick={() => applyPreset(preset)}
+          >
+            {preset.label}
+          </Button>
+        ))}
+      </div>
+    </div>
+  )
+}
+
+export function headersToRows(headers?: Record<string, string>): HeaderRow[] {
+  return Object.entries(headers ?? {}).map(([key, value]) => ({ key, value }))
+}
+
+// Drops empty rows; returns an error message (in Spanish, for the UI) when a row is invalid
+export function rowsToHeaders(rows: HeaderRow[]): { headers: Record<string, string>; error?: string } {
+  const headers: Record<string, string> = {}
+  for (const row of rows) {
+    const key = row.key.trim()
+    const value = row.value.trim()
+    if (!key && !value) continue
+    if (!key) return { headers, error: "Falta el nombre de un header" }
+    if (isForbiddenHeader(key)) return { headers, error: `El header "${key}" no se puede modificar` }
+    headers[key] = value
+  }
+  return { headers }
+}
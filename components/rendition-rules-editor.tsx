@@ -0,0 +1,75 @@
+"use client"
+
+import { Input } from "@/components/ui/input"
+import { Switch } from "@/components/ui/switch"
+import type { RenditionRules } from "@/lib/playlist-rewrite"
+
+// Form representation: comma separated language lists
+export interface RenditionRuleFields {
+  audioLanguages: string
+  subtitleLanguages: string
+  stripOthers: boolean
+}
+
+const LANGUAGE_TAG = /^[A-Za-z]{2,3}(-[A-Za-z0-9]{1,8})*$/
+
+interface RenditionRulesEditorProps {
+  fields: RenditionRuleFields
+  onChange: (fields: RenditionRuleFields) => void
+}
+
+export function RenditionRulesEditor({ fields, onChange }: RenditionRulesEditorProps) {
+  function update(patch: Partial<RenditionRuleFields>) {
+    onChange({ ...fields, ...patch })
+  }
+
+  const inputClass =
+    "bg-muted/50 border-border text-foreground placeholder:text-muted-foreground/50 font-mono text-xs"
+
+  return (
+    <div className="flex flex-col gap-2">
+      <div className="grid grid-cols-2 gap-2">
+        <Input
+          placeholder="Audio (es,en)"
+          value={fields.audioLanguages}
+          onChange={(e) => update({ audioLanguages: e.target.value })}
+          className={inputClass}
+        />
+        <Input
+          placeholder="Subtitulos (es)"
+          value={fields.subtitleLanguages}
+          onChange={(e) => update({ subtitleLanguages: e.target.value })}
+          className={inputClass}
+        />
+      </div>
+      <label className="flex items-center gap-2 text-xs text-muted-foreground">
+        <Switch checked={fields.stripOthers} onCheckedChange={(stripOthers) => update({ stripOthers })} />
+        Quitar las pistas en otros idiomas
+      </label>
+    </div>
+  )
+}
+
+export function renditionsToFields(rules?: RenditionRules): RenditionRuleFields {
+  return {
+    audioLanguages: rules?.audioLanguages?.join(",") ?? "",
+    subtitleLanguages: rules?.subtitleLanguages?.join(",") ?? "",
+    stripOthers: rules?.stripOthers ?? false,
+  }
+}
+
+// Empty lists are left out; returns an error message (in Spanish, for the UI) when a tag is invalid
+export function fieldsToRenditions(fields: RenditionRuleFields): { rules: RenditionRules; error?: string } {
+  const rules: RenditionRules = {}
+  for (const key of ["audioLanguages", "subtitleLanguages"] as const) {
+    const languages = fields[key]
+      .split(",")
+      .map((l) => l.trim())
+      .filter(Boolean)
+    const invalid = languages.find((l) => !LANGUAGE_TAG.test(l))
+    if (invalid) return { rules, error: `Idioma invalido: "${invalid}"` }
+    if (languages.length > 0) rules[key] = languages
+  }
+  if (fields.stripOthers) rules.stripOthers = true
+  return { rules }
+}
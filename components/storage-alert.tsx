@@ -0,0 +1,52 @@
+"use client"
+
+import useSWR from "swr"
+import { DatabaseZap } from "lucide-react"
+import { Alert, AlertDescription, AlertTitle } from "@/components/ui/alert"
+import type { StoreStatus } from "@/lib/channels"
+import type { HistoryStatus } from "@/lib/health-history"
+
+// /api/storage answers 503 with the same body when the store is failing
+const fetcher = (url: string) => fetch(url).then((r) => r.json())
+
+export function StorageAlert() {
+  const { data } = useSWR<StoreStatus & { history?: HistoryStatus }>("/api/storage", fetcher, {
+    refreshInterval: 5000,
+  })
+
+  if (!data) return null
+  if (data.ok) return data.history && !data.history.ok ? <HistoryAlert status={data.history} /> : null
+
+  return (
+    <Alert variant="destructive" className="mb-8 bg-destructive/5">
+      <DatabaseZap className="h-4 w-4" />
+      <AlertTitle>Error de almacenamiento</AlertTitle>
+      <AlertDescription className="text-xs">
+        <p>
+          No se pudo leer o guardar la lista de canales ({data.backend === "sqlite" ? "SQLite" : "channels.json"}).
+          Los cambios no se estan guardando hasta que se corrija.
+        </p>
+        <p className="mt-1 font-mono break-all">{data.error}</p>
+        {data.failedAt && (
+          <p className="mt-1 text-muted-foreground">Ultimo fallo: {new Date(data.failedAt).toLocaleString()}</p>
+        )}
+      </AlertDescription>
+    </Alert>
+  )
+}
+
+function HistoryAlert({ status }: { status: HistoryStatus }) {
+  return (
+    <Alert variant="destructive" className="mb-8 bg-destructive/5">
+      <DatabaseZap className="h-4 w-4" />
+      <AlertTitle>Error en el historial de salud</AlertTitle>
+      <AlertDescription className="text-xs">
+        <p>No se pudo leer o guardar el historial de salud (data/health). Los canales no se ven afectados.</p>
+        <p className="mt-1 font-mono break-all">{status.error}</p>
+        {status.failedAt && (
+          <p className="mt-1 text-muted-foreground">Ultimo fallo: {new Date(status.failedAt).toLocaleString()}</p>
+        )}
+      </AlertDescription>
+    </Alert>
+  )
+}
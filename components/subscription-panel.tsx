@@ -0,0 +1,232 @@
+"use client"
+
+import React, { useState } from "react"
+import useSWR, { mutate } from "swr"
+import { Loader2, Plus, RefreshCw, Trash2 } from "lucide-react"
+import { Button } from "@/components/ui/button"
+import { Input } from "@/components/ui/input"
+import { Label } from "@/components/ui/label"
+import { Switch } from "@/components/ui/switch"
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from "@/components/ui/select"
+import { isHttpUrl } from "@/components/channel-form"
+import type { SubscriptionCreateInput } from "@/lib/channel-schema"
+import type { Subscription, SubscriptionRules, SyncResult } from "@/lib/subscriptions"
+
+const MATCH_LABELS: Record<SubscriptionRules["match"], string> = {
+  "tvg-id-or-name": "tvg-id, o nombre si no tiene",
+  "tvg-id": "Solo tvg-id",
+  name: "Solo nombre",
+}
+
+const fetcher = (url: string) =>
+  fetch(url).then((r) => {
+    if (!r.ok) throw new Error("Failed to load subscriptions")
+    return r.json()
+  })
+
+// Remote M3U lists kept in sync with the channel list (lib/subscription-sync.ts)
+export function SubscriptionPanel() {
+  const { data } = useSWR<Subscription[]>("/api/subscriptions", fetcher, { refreshInterval: 30_000 })
+  const subscriptions = Array.isArray(data) ? data : []
+  const [syncing, setSyncing] = useState<string | null>(null)
+
+  async function refresh() {
+    await Promise.all([mutate("/api/subscriptions"), mutate("/api/channels")])
+  }
+
+  async function handleSync(id: string) {
+    setSyncing(id)
+    try {
+      await fetch(`/api/subscriptions/sync?id=${id}`, { method: "POST" })
+      await refresh()
+    } finally {
+      setSyncing(null)
+    }
+  }
+
+  async function handleDelete(id: string) {
+    const res = await fetch(`/api/subscriptions?id=${id}`, { method: "DELETE" })
+    if (!res.ok) void mutate("/api/storage")
+    await refresh()
+  }
+
+  return (
+    <div className="flex flex-col gap-4">
+      {subscriptions.length > 0 && (
+        <div className="flex flex-col gap-2">
+          {subscriptions.map((subscription) => (
+            <div key={subscription.id} className="flex flex-col gap-1 rounded-lg border border-border bg-muted/30 p-3">
+              <div className="flex items-center justify-between gap-2">
+                <span className="truncate text-sm font-semibold text-foreground">{subscription.name}</span>
+                <div className="flex shrink-0 items-center gap-1">
+                  <Button
+                    variant="ghost"
+                    size="icon"
+                    className="h-7 w-7 text-muted-foreground hover:text-foreground"
+                    onClick={() => handleSync(subscription.id)}
+                    disabled={syncing === subscription.id}
+                    title="Sincronizar ahora"
+                  >
+                    <RefreshCw className={`h-3.5 w-3.5 ${syncing === subscription.id ? "animate-spin" : ""}`} />
+                  </Button>
+                  <Button
+                    variant="ghost"
+                    size="icon"
+                    className="h-7 w-7 text-muted-foreground hover:text-destructive"
+                    onClick={() => handleDelete(subscription.id)}
+                    title="Eliminar suscripcion (los canales se conservan)"
+                  >
+                    <Trash2 className="h-3.5 w-3.5" />
+                  </Button>
+                </div>
+              </div>
+              <span className="truncate text-[10px] font-mono text-muted-foreground">{subscription.url}</span>
+              <SyncSummary result={subscription.lastSync} />
+            </div>
+          ))}
+        </div>
+      )}
+      <SubscriptionForm onAdded={refresh} />
+    </div>
+  )
+}
+
+function SyncSummary({ result }: { result?: SyncResult }) {
+  if (!result) return <span className="text-[10px] text-muted-foreground">Sin sincronizar</span>
+  const at = new Date(result.at).toLocaleString()
+  if (!result.ok) {
+    return (
+      <span className="text-[10px] text-destructive" title={at}>
+        Error: {result.error}
+      </span>
+    )
+  }
+  return (
+    <span className="text-[10px] text-muted-foreground" title={at}>
+      {result.updated} actualizados · {result.added} nuevos · {result.missing} retirados
+      {result.invalid ? ` · ${result.invalid} omitidos` : ""}
+    </span>
+  )
+}
+
+function SubscriptionForm({ onAdded }: { onAdded: () => Promise<void> }) {
+  const [name, setName] = useState("")
+  const [url, setUrl] = useState("")
+  const [match, setMatch] = useState<SubscriptionRules["match"]>("tvg-id-or-name")
+  const [groups, setGroups] = useState("")
+  const [addNew, setAddNew] = useState(false)
+  const [loading, setLoading] = useState(false)
+  const [error, setError] = useState("")
+
+  async function handleSubmit(e: React.FormEvent) {
+    e.preventDefault()
+    setError("")
+
+    if (!name.trim() || !url.trim()) {
+      setError("Todos los campos son obligatorios")
+      return
+    }
+    if (!isHttpUrl(url.trim())) {
+      setError("La URL debe comenzar con http:// o https://")
+      return
+    }
+
+    const groupList = groups
+      .split(",")
+      .map((g) => g.trim())
+      .filter(Boolean)
+    const input: SubscriptionCreateInput = {
+      name: name.trim(),
+      url: url.trim(),
+      rules: { match, addNew, groups: groupList.length > 0 ? groupList : undefined },
+    }
+
+    setLoading(true)
+    try {
+      const res = await fetch("/api/subscriptions", {
+        method: "POST",
+        headers: { "Content-Type": "application/json" },
+        body: JSON.stringify(input),
+      })
+      if (!res.ok) {
+        const data = await res.json().catch(() => ({}))
+        setError(data.error || "Error al agregar la suscripcion")
+        return
+      }
+      setName("")
+      setUrl("")
+      setGroups("")
+      setAddNew(false)
+      await onAdded()
+    } catch {
+      setError("Error al agregar la suscripcion")
+    } finally {
+      setLoading(false)
+    }
+  }
+
+  return (
+    <form onSubmit={handleSubmit} className="flex flex-col gap-3">
+      <div className="flex flex-col gap-2">
+        <Label htmlFor="subscription-name" className="text-sm text-muted-foreground">
+          Nombre
+        </Label>
+        <Input
+          id="subscription-name"
+          placeholder="Mi proveedor IPTV"
+          value={name}
+          onChange={(e) => setName(e.target.value)}
+          className="bg-muted/50 border-border text-foreground placeholder:text-muted-foreground/50 text-sm"
+        />
+      </div>
+      <div className="flex flex-col gap-2">
+        <Label htmlFor="subscription-url" className="text-sm text-muted-foreground">
+          URL de la Lista M3U
+        </Label>
+        <Input
+          id="subscription-url"
+          placeholder="https://proveedor.com/lista.m3u"
+          value={url}
+          onChange={(e) => setUrl(e.target.value)}
+          className="bg-muted/50 border-border text-foreground placeholder:text-muted-foreground/50 font-mono text-sm"
+        />
+      </div>
+      <div className="flex flex-col gap-2">
+        <Label className="text-sm text-muted-foreground">Asociar canales por</Label>
+        <Select value={match} onValueChange={(v) => setMatch(v as SubscriptionRules["match"])}>
+          <SelectTrigger className="h-9 bg-muted/50 border-border text-sm">
+            <SelectValue />
+          </SelectTrigger>
+          <SelectContent>
+            {(Object.keys(MATCH_LABELS) as SubscriptionRules["match"][]).map((value) => (
+              <SelectItem key={value} value={value} className="text-sm">
+                {MATCH_LABELS[value]}
+              </SelectItem>
+            ))}
+          </SelectContent>
+        </Select>
+      </div>
+      <div className="flex flex-col gap-2">
+        <Label htmlFor="subscription-groups" className="text-sm text-muted-foreground">
+          Grupos <span className="text-xs opacity-60">(opcional, separados por coma)</span>
+        </Label>
+        <Input
+          id="subscription-groups"
+          placeholder="Deportes, Noticias"
+          value={groups}
+          onChange={(e) => setGroups(e.target.value)}
+          className="bg-muted/50 border-border text-foreground placeholder:text-muted-foreground/50 text-sm"
+        />
+      </div>
+      <label className="flex items-center justify-between gap-2 text-sm text-muted-foreground">
+        Agregar canales nuevos de la lista
+        <Switch checked={addNew} onCheckedChange={setAddNew} />
+      </label>
+      {error && <p className="text-sm text-destructive">{error}</p>}
+      <Button type="submit" disabled={loading} variant="outline" className="w-full gap-2 bg-transparent">
+        {loading ? <Loader2 className="h-4 w-4 animate-spin" /> : <Plus className="h-4 w-4" />}
+        {loading ? "Sincronizando..." : "Agregar Suscripcion"}
+      </Button>
+    </form>
+  )
+}
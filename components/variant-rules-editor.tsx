@@ -0,0 +1,136 @@
+"use client"
+
+import { Input } from "@/components/ui/input"
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from "@/components/ui/select"
+import type { VariantRules } from "@/lib/variant-rules"
+
+// Form representation: every field is the raw text of its input
+export interface VariantRuleFields {
+  maxHeight: string
+  maxKbps: string
+  minKbps: string
+  codecs: string
+  prefer: string
+}
+
+const NO_PREFERENCE = "none"
+
+const PREFER_OPTIONS: { value: string; label: string }[] = [
+  { value: NO_PREFERENCE, label: "Orden del origen" },
+  { value: "highest", label: "Mayor calidad" },
+  { value: "lowest", label: "Menor calidad" },
+  { value: "1080", label: "Cercana a 1080p" },
+  { value: "720", label: "Cercana a 720p" },
+  { value: "480", label: "Cercana a 480p" },
+  { value: "360", label: "Cercana a 360p" },
+]
+
+interface VariantRulesEditorProps {
+  fields: VariantRuleFields
+  onChange: (fields: VariantRuleFields) => void
+}
+
+export function VariantRulesEditor({ fields, onChange }: VariantRulesEditorProps) {
+  function update(patch: Partial<VariantRuleFields>) {
+    onChange({ ...fields, ...patch })
+  }
+
+  // Keep heights set through the API selectable
+  const options = PREFER_OPTIONS.some((o) => o.value === fields.prefer)
+    ? PREFER_OPTIONS
+    : [...PREFER_OPTIONS, { value: fields.prefer, label: `Cercana a ${fields.prefer}p` }]
+
+  const inputClass =
+    "bg-muted/50 border-border text-foreground placeholder:text-muted-foreground/50 font-mono text-xs"
+
+  return (
+    <div className="grid grid-cols-2 gap-2">
+      <Input
+        inputMode="numeric"
+        placeholder="Altura max. (p. ej. 1080)"
+        value={fields.maxHeight}
+        onChange={(e) => update({ maxHeight: e.target.value })}
+        className={inputClass}
+      />
+      <Input
+        placeholder="Codecs (avc1,mp4a)"
+        value={fields.codecs}
+        onChange={(e) => update({ codecs: e.target.value })}
+        className={inputClass}
+      />
+      <Input
+        inputMode="numeric"
+        placeholder="Bitrate min. (kbps)"
+        value={fields.minKbps}
+        onChange={(e) => update({ minKbps: e.target.value })}
+        className={inputClass}
+      />
+      <Input
+        inputMode="numeric"
+        placeholder="Bitrate max. (kbps)"
+        value={fields.maxKbps}
+        onChange={(e) => update({ maxKbps: e.target.value })}
+        className={inputClass}
+      />
+      <Select value={fields.prefer} onValueChange={(prefer) => update({ prefer })}>
+        <SelectTrigger className="col-span-2 h-9 bg-muted/50 border-border text-xs">
+          <SelectValue placeholder="Variante inicial" />
+        </SelectTrigger>
+        <SelectContent>
+          {options.map((option) => (
+            <SelectItem key={option.value} value={option.value} className="text-xs">
+              Primera variante: {option.label}
+            </SelectItem>
+          ))}
+        </SelectContent>
+      </Select>
+    </div>
+  )
+}
+
+export function rulesToFields(rules?: VariantRules): VariantRuleFields {
+  const kbps = (bps?: number) => (bps === undefined ? "" : String(Math.round(bps / 1000)))
+  return {
+    maxHeight: rules?.maxHeight?.toString() ?? "",
+    maxKbps: kbps(rules?.maxBandwidth),
+    minKbps: kbps(rules?.minBandwidth),
+    codecs: rules?.codecs?.join(",") ?? "",
+    prefer: rules?.prefer?.toString() ?? NO_PREFERENCE,
+  }
+}
+
+// Empty fields are left out; returns an error message (in Spanish, for the UI) when a field is invalid
+export function fieldsToRules(fields: VariantRuleFields): { rules: VariantRules; error?: string } {
+  const rules: VariantRules = {}
+  const positive = (text: string) => (/^\d+$/.test(text.trim()) && Number(text) > 0 ? Number(text) : null)
+
+  if (fields.maxHeight.trim()) {
+    const height = positive(fields.maxHeight)
+    if (height === null) return { rules, error: "La altura maxima debe ser un numero entero" }
+    rules.maxHeight = height
+  }
+  for (const [field, key] of [
+    ["minKbps", "minBandwidth"],
+    ["maxKbps", "maxBandwidth"],
+  ] as const) {
+    if (!fields[field].trim()) continue
+    const kbps = positive(fields[field])
+    if (kbps === null) return { rules, error: "El bitrate debe ser un numero entero de kbps" }
+    rules[key] = kbps * 1000
+  }
+  if (rules.minBandwidth !== undefined && rules.maxBandwidth !== undefined && rules.minBandwidth > rules.maxBandwidth) {
+    return { rules, error: "El bitrate minimo supera al maximo" }
+  }
+
+  const codecs = fields.codecs
+    .split(",")
+    .map((c) => c.trim())
+    .filter(Boolean)
+  if (codecs.some((c) => !/^[A-Za-z0-9.]+$/.test(c))) return { rules, error: "Codec invalido" }
+  if (codecs.length > 0) rules.codecs = codecs
+
+  if (fields.prefer === "highest" || fields.prefer === "lowest") rules.prefer = fields.prefer
+  else if (fields.prefer !== NO_PREFERENCE) rules.prefer = Number(fields.prefer)
+
+  return { rules }
+}
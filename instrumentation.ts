@@ -0,0 +1,10 @@
+// Next.js calls register() once when the server process starts
+export async function register() {
+  if (process.env.NEXT_RUNTIME !== "nodejs") return
+
+  const { startHealthMonitor } = await import("./lib/health-monitor")
+  startHealthMonitor()
+
+  const { startSubscriptionSync } = await import("./lib/subscription-sync")
+  startSubscriptionSync()
+}
@@ -0,0 +1,18 @@
+import { mkdir, rename, unlink, writeFile } from "fs/promises"
+import { dirname } from "path"
+
+let writes = 0
+
+// Replaces `file` through a temporary file in the same directory and a
+// rename, so readers and crashes only ever see the old or the new contents
+export async function writeFileAtomic(file: string, data: string): Promise<void> {
+  const temp = `${file}.${process.pid}.${++writes}.tmp`
+  try {
+    await mkdir(dirname(file), { recursive: true })
+    await writeFile(temp, data, "utf-8")
+    await rename(temp, file)
+  } catch (e) {
+    await unlink(temp).catch(() => {})
+    throw e
+  }
+}
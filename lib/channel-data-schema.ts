@@ -0,0 +1,91 @@
+import { z } from "zod"
+import { CHANNEL_TYPES } from "@/lib/channel-sources"
+import { renditionRulesSchema, variantRulesSchema } from "@/lib/channel-schema"
+
+// Stored channel data, one schema per data version. The migration runner in
+// lib/channels validates data with the schema of its version before upgrading
+// it, and always validates the result with the current one. A new version
+// adds a schema here and a migration step there; old schemas never change.
+
+function uniqueIds(channels: { id: string }[], ctx: z.RefinementCtx) {
+  const seen = new Set<string>()
+  channels.forEach((channel, i) => {
+    if (seen.has(channel.id)) {
+      ctx.addIssue({ code: z.ZodIssueCode.custom, message: `Duplicate channel id "${channel.id}"`, path: [i, "id"] })
+    }
+    seen.add(channel.id)
+  })
+}
+
+// ── Version 1 ──────────────────────────────────────────────────────────────
+// A bare array, as written before data versions existed. Every field added
+// over time was optional; unknown fields are kept for the migration to see.
+const channelV1Schema = z
+  .object({
+    id: z.string().min(1),
+    name: z.string(),
+    sourceUrl: z.string(),
+    type: z.enum(CHANNEL_TYPES).optional(),
+    sources: z.array(z.string()).optional(),
+    activeSourceIndex: z.number().int().optional(),
+    createdAt: z.string().optional(),
+    segmentDelay: z.number().optional(),
+  })
+  .passthrough()
+
+export const channelDataV1Schema = z.array(channelV1Schema)
+
+// ── Version 2 ──────────────────────────────────────────────────────────────
+// { version: 2, channels }. Every channel has an explicit type and source list.
+const channelV2Schema = z.object({
+  id: z.string().min(1),
+  name: z.string(),
+  type: z.enum(CHANNEL_TYPES),
+  sourceUrl: z.string(),
+  sources: z.array(z.string()).min(1),
+  activeSourceIndex: z.number().int().min(0),
+  createdAt: z.string(),
+  segmentDelay: z.number(),
+  customHeaders: z.record(z.string(), z.string()).optional(),
+  variantRules: variantRulesSchema.optional(),
+  renditionRules: renditionRulesSchema.optional(),
+  lowLatency: z.boolean().optional(),
+  status: z.enum(["unknown", "online", "offline", "error", "stalled"]).optional(),
+  lastChecked: z.string().optional(),
+})
+
+export const channelDataV2Schema = z.object({
+  version: z.literal(2),
+  channels: z.array(channelV2Schema).superRefine(uniqueIds),
+})
+
+// ── Version 3 ──────────────────────────────────────────────────────────────
+// Adds the guide metadata of imported M3U entries.
+const channelV3Schema = channelV2Schema.extend({
+  tvgId: z.string().optional(),
+  tvgName: z.string().optional(),
+  logoUrl: z.string().optional(),
+  group: z.string().optional(),
+})
+
+export const channelDataV3Schema = z.object({
+  version: z.literal(3),
+  channels: z.array(channelV3Schema).superRefine(uniqueIds),
+})
+
+// ── Version 4 ──────────────────────────────────────────────────────────────
+// Adds the link to an M3U subscription.
+const channelV4Schema = channelV3Schema.extend({
+  subscriptionId: z.string().optional(),
+  missingSince: z.string().optional(),
+})
+
+export const channelDataV4Schema = z.object({
+  version: z.literal(4),
+  channels: z.array(channelV4Schema).superRefine(uniqueIds),
+})
+
+export type ChannelDataV1 = z.infer<typeof channelDataV1Schema>
+export type ChannelDataV2 = z.infer<typeof channelDataV2Schema>
+export type ChannelDataV3 = z.infer<typeof channelDataV3Schema>
+export type ChannelDataV4 = z.infer<typeof channelDataV4Schema>
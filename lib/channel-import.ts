@@ -0,0 +1,90 @@
+import { getChannelSources } from "@/lib/channel-sources"
+import type { Channel, ChannelType } from "@/lib/channels"
+import { MAX_GUIDE_TEXT } from "@/lib/channel-schema"
+import { guessChannelType, type M3uEntry } from "@/lib/m3u"
+import { fetchChecked } from "@/lib/network-policy"
+
+// Largest M3U list accepted, uploaded or fetched
+export const MAX_M3U_BYTES = 10 * 1024 * 1024
+
+const FETCH_TIMEOUT_MS = 30_000
+
+// An M3U entry as shown in the import preview
+export interface ImportCandidate extends M3uEntry {
+  type: ChannelType
+  // Existing channel with the same source URL or tvg-id
+  duplicate?: { channelId: string; channelName: string; by: "url" | "tvg-id" }
+  // Index of an earlier entry of the same list with the same URL
+  repeatOf?: number
+  // Attributes cut down to MAX_GUIDE_TEXT characters, which channels accept
+  truncated?: GuideField[]
+}
+
+export type GuideField = "tvgId" | "tvgName" | "group"
+
+const GUIDE_FIELDS: GuideField[] = ["tvgId", "tvgName", "group"]
+
+// Downloads a remote list; `url` is where it was finally served from, for
+// resolving relative entries. Goes through the same network policy as the proxy.
+export async function fetchM3u(url: string): Promise<{ text: string; url: string }> {
+  const res = await fetchChecked(url, { Accept: "*/*" }, AbortSignal.timeout(FETCH_TIMEOUT_MS))
+  if (!res.ok || !res.body) {
+    await res.body?.cancel()
+    throw new Error(`HTTP ${res.status}`)
+  }
+
+  const reader = res.body.getReader()
+  const chunks: Uint8Array[] = []
+  let size = 0
+  for (;;) {
+    const { done, value } = await reader.read()
+    if (done) break
+    size += value.byteLength
+    if (size > MAX_M3U_BYTES) {
+      await reader.cancel()
+      throw new Error(`List is larger than ${MAX_M3U_BYTES / 1024 / 1024} MB`)
+    }
+    chunks.push(value)
+  }
+  return { text: Buffer.concat(chunks).toString("utf-8"), url: res.url || url }
+}
+
+export function previewImport(entries: M3uEntry[], channels: Channel[]): ImportCandidate[] {
+  const byUrl = new Map<string, Channel>()
+  const byTvgId = new Map<string, Channel>()
+  for (const channel of channels) {
+    for (const source of getChannelSources(channel)) byUrl.set(source, channel)
+    if (channel.tvgId) byTvgId.set(channel.tvgId, channel)
+  }
+
+  const seen = new Map<string, number>()
+  return entries.map((entry, index) => {
+    const { entry: fitted, truncated } = fitGuideText(entry)
+    const candidate: ImportCandidate = { ...fitted, type: guessChannelType(entry.url) }
+    if (truncated.length > 0) candidate.truncated = truncated
+
+    const sameUrl = byUrl.get(entry.url)
+    const sameTvgId = candidate.tvgId ? byTvgId.get(candidate.tvgId) : undefined
+    if (sameUrl) candidate.duplicate = { channelId: sameUrl.id, channelName: sameUrl.name, by: "url" }
+    else if (sameTvgId) candidate.duplicate = { channelId: sameTvgId.id, channelName: sameTvgId.name, by: "tvg-id" }
+
+    const repeatOf = seen.get(entry.url)
+    if (repeatOf !== undefined) candidate.repeatOf = repeatOf
+    else seen.set(entry.url, index)
+    return candidate
+  })
+}
+
+// Cuts tvg-id, tvg-name and group-title down to what channels accept, so one
+// overlong attribute fails neither an import nor a subscription sync
+export function fitGuideText(entry: M3uEntry): { entry: M3uEntry; truncated: GuideField[] } {
+  const fitted = { ...entry }
+  const truncated: GuideField[] = []
+  for (const field of GUIDE_FIELDS) {
+    const value = fitted[field]?.trim()
+    if (value === undefined || value.length <= MAX_GUIDE_TEXT) continue
+    fitted[field] = value.slice(0, MAX_GUIDE_TEXT)
+    truncated.push(field)
+  }
+  return { entry: fitted, truncated }
+}
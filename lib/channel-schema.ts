@@ -0,0 +1,172 @@
+import { z } from "zod"
+import { CHANNEL_TYPES } from "@/lib/channel-sources"
+
+// Request body validation for the channel API routes
+
+// Hop-by-hop headers (RFC 9110 §7.6.1) only make sense on a single connection
+// and must never be forwarded. Host and Content-Length are owned by fetch.
+const FORBIDDEN_HEADERS = new Set([
+  "connection",
+  "keep-alive",
+  "proxy-authenticate",
+  "proxy-authorization",
+  "proxy-connection",
+  "te",
+  "trailer",
+  "transfer-encoding",
+  "upgrade",
+  "host",
+  "content-length",
+])
+
+const HEADER_NAME = /^[!#$%&'*+.^_`|~0-9A-Za-z-]+$/
+
+export function isForbiddenHeader(name: string): boolean {
+  return FORBIDDEN_HEADERS.has(name.trim().toLowerCase())
+}
+
+const httpUrl = z
+  .string()
+  .trim()
+  .refine((v) => v.startsWith("http://") || v.startsWith("https://"), "Invalid URL format")
+  .refine((v) => URL.canParse(v), "Malformed URL")
+
+export const headerMapSchema = z.record(z.string(), z.string()).superRefine((headers, ctx) => {
+  for (const [name, value] of Object.entries(headers)) {
+    if (!HEADER_NAME.test(name)) {
+      ctx.addIssue({ code: z.ZodIssueCode.custom, message: `Invalid header name "${name}"`, path: [name] })
+    } else if (isForbiddenHeader(name)) {
+      ctx.addIssue({ code: z.ZodIssueCode.custom, message: `Header "${name}" cannot be overridden`, path: [name] })
+    }
+    if (/[\r\n\0]/.test(value)) {
+      ctx.addIssue({ code: z.ZodIssueCode.custom, message: `Invalid value for header "${name}"`, path: [name] })
+    }
+  }
+})
+
+// Ordered by priority: the first entry is the primary source
+const sourceListSchema = z
+  .array(httpUrl)
+  .min(1, "At least one source URL is required")
+  .max(10, "At most 10 sources per channel")
+
+const bitsPerSecond = z.number().int().positive()
+
+// Master playlist variant rules, see lib/variant-rules.ts. Also used for the
+// query overrides on the channel entry point.
+export const variantRulesSchema = z
+  .object({
+    maxHeight: z.number().int().positive().optional(),
+    maxBandwidth: bitsPerSecond.optional(),
+    minBandwidth: bitsPerSecond.optional(),
+    codecs: z
+      .array(z.string().trim().regex(/^[A-Za-z0-9.]+$/, "Invalid codec"))
+      .max(10, "At most 10 codecs")
+      .optional(),
+    prefer: z.union([z.enum(["highest", "lowest"]), z.number().int().positive()]).optional(),
+  })
+  .strict()
+  .refine(
+    (v) => v.minBandwidth === undefined || v.maxBandwidth === undefined || v.minBandwidth <= v.maxBandwidth,
+    "minBandwidth cannot exceed maxBandwidth",
+  )
+
+// BCP 47 language tags in order of preference, see RenditionRules
+const languageListSchema = z
+  .array(z.string().trim().regex(/^[A-Za-z]{2,3}(-[A-Za-z0-9]{1,8})*$/, "Invalid language tag"))
+  .max(10, "At most 10 languages")
+
+export const renditionRulesSchema = z
+  .object({
+    audioLanguages: languageListSchema.optional(),
+    subtitleLanguages: languageListSchema.optional(),
+    stripOthers: z.boolean().optional(),
+  })
+  .strict()
+
+// tvg-id, tvg-name and group-title of imported M3U entries
+export const MAX_GUIDE_TEXT = 200
+
+const guideText = z.string().trim().max(MAX_GUIDE_TEXT, `At most ${MAX_GUIDE_TEXT} characters`)
+
+export const channelCreateSchema = z
+  .object({
+    name: z.string({ required_error: "Name and source URL are required" }).trim().min(1, "Name and source URL are required"),
+    type: z.enum(CHANNEL_TYPES).optional(),
+    sourceUrl: httpUrl.optional(),
+    sources: sourceListSchema.optional(),
+    customHeaders: headerMapSchema.optional(),
+    variantRules: variantRulesSchema.optional(),
+    renditionRules: renditionRulesSchema.optional(),
+    lowLatency: z.boolean().optional(),
+    tvgId: guideText.optional(),
+    tvgName: guideText.optional(),
+    logoUrl: httpUrl.optional(),
+    group: guideText.optional(),
+  })
+  .refine((v) => v.sourceUrl !== undefined || v.sources !== undefined, "Name and source URL are required")
+
+export const channelUpdateSchema = z
+  .object({
+    name: z.string().trim().min(1, "Name cannot be empty").optional(),
+    type: z.enum(CHANNEL_TYPES).optional(),
+    // Replaces only the primary source
+    sourceUrl: httpUrl.optional(),
+    // Replaces the whole list
+    sources: sourceListSchema.optional(),
+    // An empty map removes every custom header
+    customHeaders: headerMapSchema.optional(),
+    // An empty object removes every rule
+    variantRules: variantRulesSchema.optional(),
+    renditionRules: renditionRulesSchema.optional(),
+    lowLatency: z.boolean().optional(),
+  })
+  .strict()
+  .refine((v) => Object.keys(v).length > 0, "Nothing to update")
+
+// POST /api/channels/import: a remote M3U list to preview (uploaded files
+// come as multipart form data instead), or the entries picked from a preview
+export const importSourceSchema = z.object({ url: httpUrl }).strict()
+
+export const MAX_IMPORT_CHANNELS = 1000
+
+export const channelImportSchema = z
+  .object({
+    channels: z
+      .array(channelCreateSchema)
+      .min(1, "No channels selected")
+      .max(MAX_IMPORT_CHANNELS, `At most ${MAX_IMPORT_CHANNELS} channels per import`),
+  })
+  .strict()
+
+// /api/subscriptions: remote M3U lists synced on a schedule, see lib/subscription-sync.ts
+const subscriptionRulesSchema = z
+  .object({
+    match: z.enum(["tvg-id", "name", "tvg-id-or-name"]).default("tvg-id-or-name"),
+    groups: z.array(guideText.min(1, "Group cannot be empty")).max(50, "At most 50 groups").optional(),
+    addNew: z.boolean().default(false),
+    type: z.enum(CHANNEL_TYPES).optional(),
+  })
+  .strict()
+
+export const subscriptionCreateSchema = z
+  .object({
+    name: z.string({ required_error: "Name and URL are required" }).trim().min(1, "Name and URL are required"),
+    url: httpUrl,
+    rules: subscriptionRulesSchema.default({}),
+  })
+  .strict()
+
+export const subscriptionUpdateSchema = z
+  .object({
+    name: z.string().trim().min(1, "Name cannot be empty").optional(),
+    url: httpUrl.optional(),
+    // Replaces every rule
+    rules: subscriptionRulesSchema.optional(),
+  })
+  .strict()
+  .refine((v) => Object.keys(v).length > 0, "Nothing to update")
+
+export type ChannelCreateInput = z.infer<typeof channelCreateSchema>
+export type ChannelUpdateInput = z.infer<typeof channelUpdateSchema>
+export type SubscriptionCreateInput = z.input<typeof subscriptionCreateSchema>
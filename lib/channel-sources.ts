@@ -0,0 +1,45 @@
+import type { Channel, ChannelType } from "@/lib/channels"
+
+// Pure helpers over Channel source lists, safe to import from client components
+
+// Sources in failover order, for old single-source channels too
+export function getChannelSources(channel: Channel): string[] {
+  return channel.sources && channel.sources.length > 0 ? channel.sources : [channel.sourceUrl]
+}
+
+// The source currently in use: the last one that worked, else the primary
+export function getActiveSourceIndex(channel: Channel): number {
+  const index = channel.activeSourceIndex ?? 0
+  return index >= 0 && index < getChannelSources(channel).length ? index : 0
+}
+
+export function getActiveSource(channel: Channel): string {
+  return getChannelSources(channel)[getActiveSourceIndex(channel)]
+}
+
+// Whether the channel still has exactly these sources, in this order; results
+// of a probe started before an edit only apply when it does
+export function hasSources(channel: Channel, sources: string[]): boolean {
+  const current = getChannelSources(channel)
+  return current.length === sources.length && current.every((source, i) => source === sources[i])
+}
+
+// ── Stream types ───────────────────────────────────────────────────────────
+
+export const CHANNEL_TYPES = ["hls", "dash", "mpegts", "progressive"] as const satisfies readonly ChannelType[]
+
+export function getChannelType(channel: Pick<Channel, "type">): ChannelType {
+  return channel.type ?? "hls"
+}
+
+// Proxy entry point players should open for a channel, relative to the origin
+export function getEntryPath(channel: Pick<Channel, "id" | "type">): string {
+  const extension = { hls: "m3u8", dash: "mpd", mpegts: "ts", progressive: "stream" }[getChannelType(channel)]
+  return `/api/proxy/${channel.id}.${extension}`
+}
+
+// What the dashboard player opens: browsers cannot play raw MPEG-TS, so those
+// channels go through their repackaged HLS playlist
+export function getPlaybackPath(channel: Pick<Channel, "id" | "type">): string {
+  return getChannelType(channel) === "mpegts" ? `/api/proxy/${channel.id}.m3u8` : getEntryPath(channel)
+}
@@ -0,0 +1,5 @@
+// Channel persistence backends. lib/channels picks one from CHANNEL_STORE and
+// delegates to it; nothing else should talk to a store directly.
+export { ChannelStoreError, type ChannelDataFormat, type ChannelStore } from "@/lib/channel-store/types"
+export { JsonChannelStore } from "@/lib/channel-store/json"
+export { openSqliteChannelStore, SqliteChannelStore } from "@/lib/channel-store/sqlite"
@@ -0,0 +1,107 @@
+import { readFile, writeFile } from "fs/promises"
+import { writeFileAtomic } from "@/lib/atomic-file"
+import { ChannelStoreError, type ChannelDataFormat, type ChannelStore } from "@/lib/channel-store/types"
+import type { Channel } from "@/lib/channels"
+
+// The whole list in one pretty-printed JSON file ({ version, channels }),
+// rewritten atomically on every change, so a crash mid-write leaves the
+// previous list intact. Read-modify-write cycles are serialized by
+// lib/channels, not here.
+//
+// Files of an older data version are upgraded in memory when read; the first
+// write afterwards keeps a copy of the old file next to it (.v1.bak, ...).
+export class JsonChannelStore implements ChannelStore {
+  // Last list read or written, for peek()
+  private cached: Channel[] | null = null
+  // Contents of the file last read, when it was of an older data version
+  private legacy: { version: number; data: string } | null = null
+
+  constructor(
+    private file: string,
+    private format: ChannelDataFormat,
+  ) {}
+
+  async list(): Promise<Channel[]> {
+    let data: string
+    try {
+      data = await readFile(this.file, "utf-8")
+    } catch (e) {
+      // Nothing saved yet
+      if ((e as NodeJS.ErrnoException).code === "ENOENT") return []
+      throw new ChannelStoreError(`Cannot read ${this.file}: ${errorMessage(e)}`, { cause: e })
+    }
+
+    let raw: unknown
+    try {
+      raw = JSON.parse(data)
+    } catch (e) {
+      throw new ChannelStoreError(`${this.file} is not valid JSON: ${errorMessage(e)}`, { cause: e })
+    }
+
+    const { channels, fromVersion } = this.format.load(raw)
+    this.legacy = fromVersion < this.format.version ? { version: fromVersion, data } : null
+    this.cached = channels
+    return channels
+  }
+
+  // Rewrites an older file in the current format right away
+  async upgrade(): Promise<void> {
+    const channels = await this.list()
+    if (this.legacy) await this.replaceAll(channels)
+  }
+
+  async insert(added: Channel[]): Promise<void> {
+    const channels = await this.list()
+    await this.replaceAll([...channels, ...added])
+  }
+
+  async update(id: string, updates: Partial<Channel>): Promise<Channel | null> {
+    const channels = await this.list()
+    const idx = channels.findIndex((c) => c.id === id)
+    if (idx === -1) return null
+    const updated = { ...channels[idx], ...updates }
+    await this.replaceAll(channels.map((c, i) => (i === idx ? updated : c)))
+    return updated
+  }
+
+  async remove(id: string): Promise<void> {
+    const channels = await this.list()
+    await this.replaceAll(channels.filter((c) => c.id !== id))
+  }
+
+  async replaceAll(channels: Channel[]): Promise<void> {
+    if (this.legacy) await this.backup(this.legacy)
+
+    const data = { version: this.format.version, channels }
+    try {
+      await writeFileAtomic(this.file, JSON.stringify(data, null, 2))
+    } catch (e) {
+      throw new ChannelStoreError(`Cannot write ${this.file}: ${errorMessage(e)}`, { cause: e })
+    }
+    this.cached = channels
+  }
+
+  // Never overwrites an earlier backup of the same version
+  private async backup(legacy: { version: number; data: string }) {
+    let backup = `${this.file}.v${legacy.version}.bak`
+    try {
+      await writeFile(backup, legacy.data, { encoding: "utf-8", flag: "wx" }).catch(async (e) => {
+        if ((e as NodeJS.ErrnoException).code !== "EEXIST") throw e
+        backup = `${this.file}.v${legacy.version}.${Date.now()}.bak`
+        await writeFile(backup, legacy.data, { encoding: "utf-8", flag: "wx" })
+      })
+    } catch (e) {
+      throw new ChannelStoreError(`Cannot back up ${this.file} before upgrading it: ${errorMessage(e)}`, { cause: e })
+    }
+    console.log(`[store] Upgrading ${this.file} from data version ${legacy.version} to ${this.format.version}, backup at ${backup}`)
+    this.legacy = null
+  }
+
+  peek(id: string): Channel | undefined {
+    return this.cached?.find((c) => c.id === id)
+  }
+}
+
+function errorMessage(e: unknown): string {
+  return e instanceof Error ? e.message : String(e)
+}
@@ -0,0 +1,162 @@
+import { mkdir, rename, unlink } from "fs/promises"
+import { existsSync } from "fs"
+import { dirname } from "path"
+import type BetterSqlite3 from "better-sqlite3"
+import type { Channel } from "@/lib/channels"
+import { ChannelStoreError, type ChannelDataFormat, type ChannelStore } from "@/lib/channel-store/types"
+
+// Embedded SQLite database, one row per channel. The channel itself is kept
+// as a JSON document so new Channel fields need no schema migration; only the
+// id and the list position are real columns. Writes touch a single row
+// instead of rewriting the whole list. The data version of the documents is
+// the database's user_version; rows are validated against it on every read,
+// like the JSON file is.
+export class SqliteChannelStore implements ChannelStore {
+  constructor(
+    private db: BetterSqlite3.Database,
+    private format: ChannelDataFormat,
+  ) {
+    db.pragma("journal_mode = WAL")
+    db.exec(`
+      CREATE TABLE IF NOT EXISTS channels (
+        id TEXT PRIMARY KEY,
+        position INTEGER NOT NULL,
+        data TEXT NOT NULL
+      )
+    `)
+  }
+
+  async list(): Promise<Channel[]> {
+    return this.decode(this.rows())
+  }
+
+  // Stored documents as they are, without validation
+  rows(): unknown[] {
+    const rows = this.db.prepare("SELECT data FROM channels ORDER BY position").all() as { data: string }[]
+    return rows.map((row) => parseRow(row.data))
+  }
+
+  async insert(channels: Channel[]): Promise<void> {
+    const insert = this.db.prepare(
+      "INSERT INTO channels (id, position, data) VALUES (?, (SELECT COALESCE(MAX(position), -1) + 1 FROM channels), ?)",
+    )
+    this.db.transaction(() => {
+      for (const channel of channels) insert.run(channel.id, JSON.stringify(channel))
+    })()
+  }
+
+  async update(id: string, updates: Partial<Channel>): Promise<Channel | null> {
+    return this.db.transaction(() => {
+      const existing = this.read(id)
+      if (!existing) return null
+      const updated = { ...existing, ...updates }
+      this.db.prepare("UPDATE channels SET data = ? WHERE id = ?").run(JSON.stringify(updated), id)
+      return updated
+    })()
+  }
+
+  async remove(id: string): Promise<void> {
+    this.db.prepare("DELETE FROM channels WHERE id = ?").run(id)
+  }
+
+  async replaceAll(channels: Channel[]): Promise<void> {
+    const insert = this.db.prepare("INSERT INTO channels (id, position, data) VALUES (?, ?, ?)")
+    this.db.transaction(() => {
+      this.db.prepare("DELETE FROM channels").run()
+      channels.forEach((channel, position) => insert.run(channel.id, position, JSON.stringify(channel)))
+    })()
+  }
+
+  // Reads are synchronous with better-sqlite3, so this is always current. An
+  // invalid row is reported by list(); here it is simply not found.
+  peek(id: string): Channel | undefined {
+    try {
+      return this.read(id)
+    } catch {
+      return undefined
+    }
+  }
+
+  private read(id: string): Channel | undefined {
+    const row = this.db.prepare("SELECT data FROM channels WHERE id = ?").get(id) as { data: string } | undefined
+    return row ? this.decode([parseRow(row.data)])[0] : undefined
+  }
+
+  private decode(rows: unknown[]): Channel[] {
+    return this.format.load({ version: this.format.version, channels: rows }).channels
+  }
+}
+
+function parseRow(data: string): unknown {
+  try {
+    return JSON.parse(data)
+  } catch (e) {
+    throw new ChannelStoreError(`Stored channel is not valid JSON: ${e instanceof Error ? e.message : String(e)}`, {
+      cause: e,
+    })
+  }
+}
+
+// Opens (or creates) the database at `file`. A new database is seeded with
+// `seed()`, so switching an existing install over keeps its channels; an
+// existing one of an older data version is backed up and upgraded.
+// better-sqlite3 is a native module and only loaded here, when selected.
+export async function openSqliteChannelStore(
+  file: string,
+  format: ChannelDataFormat,
+  seed: () => Promise<Channel[]>,
+): Promise<SqliteChannelStore> {
+  let Database: typeof BetterSqlite3
+  try {
+    Database = (await import("better-sqlite3")).default
+  } catch (e) {
+    throw new ChannelStoreError("CHANNEL_STORE=sqlite needs the better-sqlite3 package", { cause: e })
+  }
+  if (!existsSync(file)) {
+    await mkdir(dirname(file), { recursive: true })
+    await createSeeded(Database, file, format, seed)
+  }
+
+  const db = new Database(file)
+  const store = new SqliteChannelStore(db, format)
+
+  // Databases from before data versions are at 0 and hold version 1 channels
+  const version = (db.pragma("user_version", { simple: true }) as number) || 1
+  if (version !== format.version) {
+    const rows = store.rows()
+    const { channels } = format.load(version === 1 ? rows : { version, channels: rows })
+    const backup = existsSync(`${file}.v${version}.bak`) ? `${file}.v${version}.${Date.now()}.bak` : `${file}.v${version}.bak`
+    await db.backup(backup)
+    await store.replaceAll(channels)
+    db.pragma(`user_version = ${format.version}`)
+    console.log(`[store] Upgraded ${file} from data version ${version} to ${format.version}, backup at ${backup}`)
+  }
+  return store
+}
+
+// Builds the new database next to `file` and renames it into place once it
+// is seeded, so a failed seed leaves no empty database behind and the legacy
+// channels are imported again on the next start
+async function createSeeded(
+  Database: typeof BetterSqlite3,
+  file: string,
+  format: ChannelDataFormat,
+  seed: () => Promise<Channel[]>,
+): Promise<void> {
+  const temp = `${file}.${process.pid}.tmp`
+  const db = new Database(temp)
+  try {
+    const store = new SqliteChannelStore(db, format)
+    const channels = await seed()
+    if (channels.length > 0) await store.replaceAll(channels)
+    db.pragma(`user_version = ${format.version}`)
+    // Checkpoints and removes the -wal file, so the rename moves everything
+    db.close()
+    await rename(temp, file)
+    if (channels.length > 0) console.log(`[store] Imported ${channels.length} channels into ${file}`)
+  } catch (e) {
+    if (db.open) db.close()
+    await Promise.all([temp, `${temp}-wal`, `${temp}-shm`].map((f) => unlink(f).catch(() => {})))
+    throw e
+  }
+}
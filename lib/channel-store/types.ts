@@ -0,0 +1,34 @@
+import type { Channel } from "@/lib/channels"
+
+// Persistence backend for the channel list. Channels keep the order they were
+// inserted in; replaceAll() sets a new list (and order) at once.
+export interface ChannelStore {
+  list(): Promise<Channel[]>
+  // Appends new channels, in order
+  insert(channels: Channel[]): Promise<void>
+  // Shallow merge into the stored channel; null when the id is unknown
+  update(id: string, updates: Partial<Channel>): Promise<Channel | null>
+  remove(id: string): Promise<void>
+  replaceAll(channels: Channel[]): Promise<void>
+  // Last known copy of a channel without touching storage, for synchronous callers
+  peek(id: string): Channel | undefined
+}
+
+// Storage could not be read or written. Never swallowed: the channel list on
+// disk is the source of truth, and carrying on from a stale in-memory copy
+// would silently lose channels on the next write.
+export class ChannelStoreError extends Error {
+  constructor(message: string, options?: { cause?: unknown }) {
+    super(message, options)
+    this.name = "ChannelStoreError"
+  }
+}
+
+// Versioned layout of stored channel data, implemented by lib/channels
+export interface ChannelDataFormat {
+  // Version written by this release
+  version: number
+  // Validates stored data of any known version (a bare array is version 1)
+  // and upgrades it; throws ChannelStoreError when it cannot
+  load(raw: unknown): { channels: Channel[]; fromVersion: number }
+}
@@ -0,0 +1,102 @@
+import { describe, expect, it } from "vitest"
+import { ChannelStoreError } from "@/lib/channel-store"
+import { CHANNEL_DATA_VERSION, migrateChannelData } from "@/lib/channels"
+
+const CREATED = "2026-01-01T00:00:00.000Z"
+
+describe("migrateChannelData", () => {
+  it("upgrades a version 1 array to the current version", () => {
+    const { channels, fromVersion } = migrateChannelData([
+      // As written before types, failover, creation dates and delays existed
+      { id: "a", name: "A", sourceUrl: "https://a.example.com/a.m3u8", customHeaders: { Referer: "https://a.example.com/" } },
+      {
+        id: "b",
+        name: "B",
+        type: "dash",
+        sourceUrl: "https://stale.example.com/b.mpd",
+        sources: ["https://b1.example.com/b.mpd", "https://b2.example.com/b.mpd"],
+        activeSourceIndex: 5,
+        createdAt: CREATED,
+        segmentDelay: 2,
+        status: "online",
+      },
+    ])
+
+    expect(fromVersion).toBe(1)
+    expect(channels).toEqual([
+      {
+        id: "a",
+        name: "A",
+        type: "hls",
+        sourceUrl: "https://a.example.com/a.m3u8",
+        sources: ["https://a.example.com/a.m3u8"],
+        activeSourceIndex: 0,
+        createdAt: new Date(0).toISOString(),
+        segmentDelay: 0,
+        customHeaders: { Referer: "https://a.example.com/" },
+      },
+      {
+        id: "b",
+        name: "B",
+        type: "dash",
+        // The primary source always comes from the source list
+        sourceUrl: "https://b1.example.com/b.mpd",
+        sources: ["https://b1.example.com/b.mpd", "https://b2.example.com/b.mpd"],
+        activeSourceIndex: 0,
+        createdAt: CREATED,
+        segmentDelay: 2,
+        status: "online",
+      },
+    ])
+  })
+
+  it("keeps the fields later versions added", () => {
+    const channel = {
+      id: "a",
+      name: "A",
+      type: "hls",
+      sourceUrl: "https://a.example.com/a.m3u8",
+      sources: ["https://a.example.com/a.m3u8"],
+      activeSourceIndex: 0,
+      createdAt: CREATED,
+      segmentDelay: 0,
+      tvgId: "a.es",
+      group: "Noticias",
+    }
+    expect(migrateChannelData({ version: 3, channels: [channel] })).toEqual({ channels: [channel], fromVersion: 3 })
+  })
+
+  it("reads current data as is", () => {
+    expect(migrateChannelData({ version: CHANNEL_DATA_VERSION, channels: [] })).toEqual({
+      channels: [],
+      fromVersion: CHANNEL_DATA_VERSION,
+    })
+  })
+
+  it.each([
+    ["data without a version", { channels: [] }, "Stored channel data has no known version"],
+    ["null", null, "Stored channel data has no known version"],
+    ["data from a newer release", { version: CHANNEL_DATA_VERSION + 1, channels: [] }, "written by a newer release"],
+    ["an invalid version 1 channel", [{ id: "a", name: "A" }], "Invalid channel data (version 1): 0.sourceUrl: Required"],
+    [
+      "duplicate ids",
+      {
+        version: 2,
+        channels: ["a", "a"].map((id) => ({
+          id,
+          name: id,
+          type: "hls",
+          sourceUrl: "https://a.example.com/a.m3u8",
+          sources: ["https://a.example.com/a.m3u8"],
+          activeSourceIndex: 0,
+          createdAt: CREATED,
+          segmentDelay: 0,
+        })),
+      },
+      'Invalid channel data (version 2): channels.1.id: Duplicate channel id "a"',
+    ],
+  ])("rejects %s", (_, raw, message) => {
+    expect(() => migrateChannelData(raw)).toThrow(ChannelStoreError)
+    expect(() => migrateChannelData(raw)).toThrow(message)
+  })
+})
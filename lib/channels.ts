@@ -1,94 +1,349 @@
-import { readFile, writeFile, mkdir } from "fs/promises"
 import { join } from "path"
-import { existsSync } from "fs"
+import type { ZodError, ZodTypeAny } from "zod"
+import {
+  ChannelStoreError,
+  JsonChannelStore,
+  openSqliteChannelStore,
+  type ChannelDataFormat,
+  type ChannelStore,
+} from "@/lib/channel-store"
+import {
+  channelDataV1Schema,
+  channelDataV2Schema,
+  channelDataV3Schema,
+  channelDataV4Schema,
+  type ChannelDataV1,
+  type ChannelDataV2,
+  type ChannelDataV3,
+  type ChannelDataV4,
+} from "@/lib/channel-data-schema"
+import { config } from "@/lib/config"
+import type { RenditionRules } from "@/lib/playlist-rewrite"
+import type { VariantRules } from "@/lib/variant-rules"
+
+// How the proxy serves a channel: HLS playlists, DASH manifests, or a single
+// unbounded HTTP body (raw MPEG-TS, Icecast/Shoutcast audio) relayed as is
+export type ChannelType = "hls" | "dash" | "mpegts" | "progressive"
 
 export interface Channel {
   id: string
   name: string
+  // Channels created before stream types existed are HLS
+  type?: ChannelType
+  // Primary source, always equal to sources[0] when sources is set
   sourceUrl: string
+  // Origins in failover order. Channels created before failover support only have sourceUrl.
+  sources?: string[]
+  // Index into sources of the last source that served a working playlist
+  activeSourceIndex?: number
   createdAt: string
   segmentDelay: number
   customHeaders?: Record<string, string>
-  status?: "unknown" | "online" | "offline" | "error"
+  // Filtering and ordering of master playlist variants
+  variantRules?: VariantRules
+  // Preferred audio/subtitle languages in master playlists
+  renditionRules?: RenditionRules
+  // Play with hls.js low-latency mode (LL-HLS origins)
+  lowLatency?: boolean
+  // Guide metadata, from imported M3U lists (tvg-id, tvg-name, tvg-logo, group-title)
+  tvgId?: string
+  tvgName?: string
+  logoUrl?: string
+  group?: string
+  // M3U subscription that keeps this channel's primary source up to date
+  subscriptionId?: string
+  // Set while the subscription's list no longer has an entry for the channel
+  missingSince?: string
+  // "stalled": the origin answers, but the live media sequence stopped advancing
+  status?: "unknown" | "online" | "offline" | "error" | "stalled"
   lastChecked?: string
 }
 
-const DATA_DIR = join(process.cwd(), "data")
+export const DATA_DIR = join(process.cwd(), "data")
 const CHANNELS_FILE = join(DATA_DIR, "channels.json")
+const CHANNELS_DB = join(DATA_DIR, "channels.db")
 
-// In-memory fallback when filesystem is read-only (e.g. Vercel serverless)
-let memoryStore: Channel[] | null = null
-let useMemory = false
+// ── Data versions ──────────────────────────────────────────────────────────
+// Stored data is validated with the schema of its version, then upgraded one
+// version at a time. To change the stored shape: add a schema to
+// lib/channel-data-schema, a step to MIGRATIONS and bump CHANNEL_DATA_VERSION.
 
-async function ensureDataDir() {
-  if (!existsSync(DATA_DIR)) {
-    try {
-      await mkdir(DATA_DIR, { recursive: true })
-    } catch {
-      useMemory = true
-    }
+export const CHANNEL_DATA_VERSION = 4
+
+const DATA_SCHEMAS: Record<number, ZodTypeAny> = {
+  1: channelDataV1Schema,
+  2: channelDataV2Schema,
+  3: channelDataV3Schema,
+  4: channelDataV4Schema,
+}
+
+// MIGRATIONS[n] turns valid version n data into version n + 1 data
+const MIGRATIONS: Record<number, (data: never) => unknown> = {
+  1: (channels: ChannelDataV1): ChannelDataV2 => ({
+    version: 2,
+    channels: channels.map((channel) => {
+      const sources = channel.sources && channel.sources.length > 0 ? channel.sources : [channel.sourceUrl]
+      const active = channel.activeSourceIndex ?? 0
+      return {
+        ...channel,
+        type: channel.type ?? "hls",
+        sourceUrl: sources[0],
+        sources,
+        activeSourceIndex: active >= 0 && active < sources.length ? active : 0,
+        createdAt: channel.createdAt ?? new Date(0).toISOString(),
+        segmentDelay: channel.segmentDelay ?? 0,
+      } as ChannelDataV2["channels"][number]
+    }),
+  }),
+  // 2 → 3 and 3 → 4 only add optional fields
+  2: (data: ChannelDataV2): ChannelDataV3 => ({ ...data, version: 3 }),
+  3: (data: ChannelDataV3): ChannelDataV4 => ({ ...data, version: 4 }),
+}
+
+export function migrateChannelData(raw: unknown): { channels: Channel[]; fromVersion: number } {
+  const fromVersion = dataVersion(raw)
+  if (fromVersion > CHANNEL_DATA_VERSION) {
+    throw new ChannelStoreError(
+      `Channel data version ${fromVersion} was written by a newer release (this one reads up to ${CHANNEL_DATA_VERSION})`,
+    )
   }
+
+  let data = raw
+  for (let version = fromVersion; version < CHANNEL_DATA_VERSION; version++) {
+    data = MIGRATIONS[version](validate(version, data) as never)
+  }
+  const current = validate(CHANNEL_DATA_VERSION, data) as ChannelDataV4
+  return { channels: current.channels as Channel[], fromVersion }
 }
 
-export async function getChannels(): Promise<Channel[]> {
-  if (useMemory) {
-    return memoryStore ?? []
+// A bare array is version 1; later versions are { version, channels }
+function dataVersion(raw: unknown): number {
+  if (Array.isArray(raw)) return 1
+  const version = (raw as { version?: unknown } | null)?.version
+  if (typeof version !== "number" || !Number.isInteger(version) || version < 2) {
+    throw new ChannelStoreError("Stored channel data has no known version")
   }
-  await ensureDataDir()
-  if (useMemory) return memoryStore ?? []
-  try {
-    const data = await readFile(CHANNELS_FILE, "utf-8")
-    const channels = JSON.parse(data) as Channel[]
-    memoryStore = channels
-    return channels
-  } catch {
-    return memoryStore ?? []
+  return version
+}
+
+function validate(version: number, data: unknown): unknown {
+  const parsed = DATA_SCHEMAS[version].safeParse(data)
+  if (!parsed.success) {
+    throw new ChannelStoreError(`Invalid channel data (version ${version}): ${describeIssue(parsed.error)}`)
   }
+  return parsed.data
 }
 
-export async function saveChannels(channels: Channel[]): Promise<void> {
-  memoryStore = channels
-  if (useMemory) return
+function describeIssue(error: ZodError): string {
+  const issue = error.issues[0]
+  return issue ? `${issue.path.join(".") || "root"}: ${issue.message}` : "unknown error"
+}
+
+const CHANNEL_DATA_FORMAT: ChannelDataFormat = {
+  version: CHANNEL_DATA_VERSION,
+  load: migrateChannelData,
+}
+
+// ── Active store ───────────────────────────────────────────────────────────
+// Chosen once per process by CHANNEL_STORE. Kept on globalThis so every route
+// bundle shares one store (and one SQLite connection), one mutation queue and
+// one status.
+
+export interface StoreStatus {
+  backend: "json" | "sqlite"
+  ok: boolean
+  // Last failure, cleared by the next successful read or write
+  error?: string
+  failedAt?: string
+}
+
+const globalForStore = globalThis as unknown as {
+  channelStore?: Promise<ChannelStore>
+  channelStoreReady?: ChannelStore
+  channelStoreQueue?: Promise<unknown>
+  channelStoreStatus?: StoreStatus
+}
+
+function getStore(): Promise<ChannelStore> {
+  if (!globalForStore.channelStore) {
+    globalForStore.channelStore = openStore().then((store) => (globalForStore.channelStoreReady = store))
+    // A store that failed to open is retried on the next call
+    globalForStore.channelStore.catch(() => {
+      globalForStore.channelStore = undefined
+    })
+  }
+  return globalForStore.channelStore
+}
+
+async function openStore(): Promise<ChannelStore> {
+  const json = new JsonChannelStore(CHANNELS_FILE, CHANNEL_DATA_FORMAT)
+  if (config.channelStore === "sqlite") {
+    return openSqliteChannelStore(CHANNELS_DB, CHANNEL_DATA_FORMAT, () => json.list())
+  }
+  // Before anything else reads or writes, so the upgrade cannot race a mutation
+  await json.upgrade()
+  return json
+}
+
+// Runs one store operation and keeps the status current. Failures are logged
+// and rethrown; callers must not fall back to an empty or cached list.
+async function withStore<T>(operation: (store: ChannelStore) => Promise<T>): Promise<T> {
   try {
-    await ensureDataDir()
-    if (useMemory) return
-    await writeFile(CHANNELS_FILE, JSON.stringify(channels, null, 2), "utf-8")
-  } catch {
-    useMemory = true
+    const result = await operation(await getStore())
+    globalForStore.channelStoreStatus = { backend: config.channelStore, ok: true }
+    return result
+  } catch (e) {
+    const error = e instanceof Error ? e.message : String(e)
+    if (globalForStore.channelStoreStatus?.error !== error) console.error("[store] Channel storage failed:", error)
+    globalForStore.channelStoreStatus = {
+      backend: config.channelStore,
+      ok: false,
+      error,
+      failedAt: new Date().toISOString(),
+    }
+    throw e
   }
 }
 
-export async function addChannel(name: string, sourceUrl: string): Promise<Channel> {
-  const channels = await getChannels()
-  const id = generateId()
+// Read-modify-write operations run one at a time, so concurrent requests
+// cannot overwrite each other's changes
+function mutate<T>(operation: (store: ChannelStore) => Promise<T>): Promise<T> {
+  const run = (globalForStore.channelStoreQueue ?? Promise.resolve()).then(() => withStore(operation))
+  globalForStore.channelStoreQueue = run.catch(() => {})
+  return run
+}
+
+export function getStoreStatus(): StoreStatus {
+  return globalForStore.channelStoreStatus ?? { backend: config.channelStore, ok: true }
+}
+
+export async function getChannels(): Promise<Channel[]> {
+  return withStore((store) => store.list())
+}
+
+export async function saveChannels(channels: Channel[]): Promise<void> {
+  await mutate((store) => store.replaceAll(channels))
+}
+
+// Optional settings accepted when creating a channel
+export type ChannelOptions = Pick<
+  Channel,
+  | "type"
+  | "customHeaders"
+  | "sources"
+  | "variantRules"
+  | "renditionRules"
+  | "lowLatency"
+  | "tvgId"
+  | "tvgName"
+  | "logoUrl"
+  | "group"
+  | "subscriptionId"
+>
+
+export interface NewChannel {
+  name: string
+  sourceUrl: string
+  options?: ChannelOptions
+}
+
+export async function addChannel(name: string, sourceUrl: string, options: ChannelOptions = {}): Promise<Channel> {
+  const [channel] = await addChannels([{ name, sourceUrl, options }])
+  return channel
+}
+
+// Bulk creation (M3U imports) in a single write
+export async function addChannels(list: NewChannel[]): Promise<Channel[]> {
+  const channels = buildChannels(list)
+  await mutate((store) => store.insert(channels))
+  return channels
+}
+
+// Read-modify-write of the whole list as a single mutation, for changes that
+// span many channels (subscription syncs). `change` gets the current list and
+// returns the new one, plus channels to append; handing back the same list
+// with nothing to append writes nothing.
+export async function updateChannels<T>(
+  change: (
+    channels: Channel[],
+  ) =>
+    | { channels: Channel[]; added?: NewChannel[]; result: T }
+    | Promise<{ channels: Channel[]; added?: NewChannel[]; result: T }>,
+): Promise<T> {
+  return mutate(async (store) => {
+    const current = await store.list()
+    const { channels, added = [], result } = await change(current)
+    if (channels === current && added.length === 0) return result
+    await store.replaceAll([...channels, ...buildChannels(added, new Set(current.map((c) => c.id)))])
+    return result
+  })
+}
+
+function buildChannels(list: NewChannel[], ids = new Set<string>()): Channel[] {
+  return list.map(({ name, sourceUrl, options }) => {
+    const channel = buildChannel(name, sourceUrl, options)
+    // Ids only differ in their random part within the same millisecond
+    while (ids.has(channel.id)) channel.id = generateId()
+    ids.add(channel.id)
+    return channel
+  })
+}
+
+function buildChannel(name: string, sourceUrl: string, options: ChannelOptions = {}): Channel {
+  const sources = options.sources && options.sources.length > 0 ? options.sources : [sourceUrl]
   const channel: Channel = {
-    id,
+    id: generateId(),
     name: name.trim(),
-    sourceUrl: sourceUrl.trim(),
+    type: options.type ?? "hls",
+    sourceUrl: sources[0].trim(),
+    sources: sources.map((s) => s.trim()),
+    activeSourceIndex: 0,
     createdAt: new Date().toISOString(),
+    segmentDelay: 0,
+    status: "unknown",
+  }
+  if (options.customHeaders && Object.keys(options.customHeaders).length > 0) {
+    channel.customHeaders = options.customHeaders
+  }
+  if (options.variantRules && Object.keys(options.variantRules).length > 0) {
+    channel.variantRules = options.variantRules
+  }
+  if (options.renditionRules && Object.keys(options.renditionRules).length > 0) {
+    channel.renditionRules = options.renditionRules
+  }
+  if (options.lowLatency) channel.lowLatency = true
+  for (const key of ["tvgId", "tvgName", "logoUrl", "group", "subscriptionId"] as const) {
+    const value = options[key]?.trim()
+    if (value) channel[key] = value
   }
-  channels.push(channel)
-  await saveChannels(channels)
   return channel
 }
 
 export async function removeChannel(id: string): Promise<void> {
-  const channels = await getChannels()
-  const filtered = channels.filter((c) => c.id !== id)
-  await saveChannels(filtered)
+  await mutate((store) => store.remove(id))
 }
 
-export async function updateChannel(id: string, updates: Partial<Channel>): Promise<Channel | null> {
-  const channels = await getChannels()
-  const idx = channels.findIndex((c) => c.id === id)
-  if (idx === -1) return null
-  channels[idx] = { ...channels[idx], ...updates }
-  await saveChannels(channels)
-  return channels[idx]
+// `updates` can be derived from the stored channel: the function runs inside
+// the mutation queue, so nothing written in between is lost. Returning no
+// changes skips the write.
+export async function updateChannel(
+  id: string,
+  updates: Partial<Channel> | ((channel: Channel) => Partial<Channel>),
+): Promise<Channel | null> {
+  return mutate(async (store) => {
+    if (typeof updates !== "function") return store.update(id, updates)
+    const existing = (await store.list()).find((c) => c.id === id)
+    if (!existing) return null
+    const changes = updates(existing)
+    return Object.keys(changes).length > 0 ? store.update(id, changes) : existing
+  })
 }
 
-export function getChannelById(id: string): Channel | undefined {
-  return memoryStore?.find((c) => c.id === id)
+// One channel, for lookups on every proxied request: answered from the
+// store's in-memory copy, which every write through this process keeps
+// current. The full list is only read when that copy does not have it.
+export async function getChannel(id: string): Promise<Channel | undefined> {
+  return withStore(async (store) => store.peek(id) ?? (await store.list()).find((c) => c.id === id))
 }
 
 function generateId(): string {
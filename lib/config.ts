@@ -0,0 +1,106 @@
+// Runtime configuration, read from environment variables once per process.
+
+function intFromEnv(name: string, fallback: number): number {
+  const raw = process.env[name]
+  if (raw === undefined || raw.trim() === "") return fallback
+  const value = Number.parseInt(raw, 10)
+  return Number.isFinite(value) && value >= 0 ? value : fallback
+}
+
+function floatFromEnv(name: string, fallback: number): number {
+  const raw = process.env[name]
+  if (raw === undefined || raw.trim() === "") return fallback
+  const value = Number.parseFloat(raw)
+  return Number.isFinite(value) && value >= 0 ? value : fallback
+}
+
+function boolFromEnv(name: string, fallback: boolean): boolean {
+  const raw = process.env[name]?.trim().toLowerCase()
+  if (!raw) return fallback
+  return raw === "1" || raw === "true" || raw === "yes"
+}
+
+function listFromEnv(name: string, fallback: string[]): string[] {
+  const raw = process.env[name]
+  if (raw === undefined || raw.trim() === "") return fallback
+  if (raw.trim().toLowerCase() === "none") return []
+  return raw
+    .split(",")
+    .map((v) => v.trim())
+    .filter(Boolean)
+}
+
+function oneOfFromEnv<T extends string>(name: string, values: readonly T[], fallback: T): T {
+  const raw = process.env[name]?.trim().toLowerCase()
+  return values.find((v) => v === raw) ?? fallback
+}
+
+// Loopback, private, link-local (cloud metadata), CGNAT, multicast and reserved ranges
+const DEFAULT_DENY_NETWORKS = [
+  "0.0.0.0/8",
+  "10.0.0.0/8",
+  "100.64.0.0/10",
+  "127.0.0.0/8",
+  "169.254.0.0/16",
+  "172.16.0.0/12",
+  "192.0.0.0/24",
+  "192.168.0.0/16",
+  "198.18.0.0/15",
+  "224.0.0.0/4",
+  "240.0.0.0/4",
+  "::/128",
+  "::1/128",
+  "64:ff9b::/96",
+  "fc00::/7",
+  "fe80::/10",
+  "ff00::/8",
+]
+
+export const config = {
+  // Where channels are persisted: "json" (data/channels.json) or "sqlite"
+  // (data/channels.db, seeded from channels.json when first created)
+  channelStore: oneOfFromEnv("CHANNEL_STORE", ["json", "sqlite"] as const, "json"),
+  // How often the background monitor probes every channel. 0 disables it.
+  healthCheckIntervalMs: intFromEnv("HEALTH_CHECK_INTERVAL_MS", 60_000),
+  // Maximum number of channels probed at the same time
+  healthCheckConcurrency: Math.max(1, intFromEnv("HEALTH_CHECK_CONCURRENCY", 4)),
+  // Probe history retention, per channel: whichever limit is hit first wins
+  healthHistoryMaxAgeHours: intFromEnv("HEALTH_HISTORY_MAX_AGE_HOURS", 24 * 7),
+  healthHistoryMaxSamples: intFromEnv("HEALTH_HISTORY_MAX_SAMPLES", 10_080),
+  // Honor custom headers serialized into the ?h= query param by older playlists.
+  // Off by default: it lets any client forge upstream headers.
+  allowLegacyHeaderParam: boolFromEnv("PROXY_ALLOW_LEGACY_HEADERS", false),
+  // HMAC key for rewritten proxy URLs. When unset a random key is generated per
+  // process, so links handed out before a restart stop working.
+  proxySigningSecret: process.env.PROXY_SIGNING_SECRET || "",
+  // Lifetime of a signed proxy URL
+  proxyUrlTtlSeconds: Math.max(60, intFromEnv("PROXY_URL_TTL_SECONDS", 6 * 60 * 60)),
+  // Accept /api/proxy/s requests without a signature (links from older versions)
+  allowUnsignedProxyUrls: boolFromEnv("PROXY_ALLOW_UNSIGNED", false),
+  // CIDR ranges the proxy refuses to fetch from, checked after DNS resolution.
+  // Set to "none" to allow every address.
+  proxyDenyNetworks: listFromEnv("PROXY_DENY_NETWORKS", DEFAULT_DENY_NETWORKS),
+  // Shared segment cache: total byte budget (0 disables storing, requests are
+  // still coalesced), largest single body kept, and how long bodies stay fresh
+  segmentCacheMaxBytes: intFromEnv("SEGMENT_CACHE_MAX_BYTES", 256 * 1024 * 1024),
+  segmentCacheMaxEntryBytes: intFromEnv("SEGMENT_CACHE_MAX_ENTRY_BYTES", 32 * 1024 * 1024),
+  segmentCacheTtlSeconds: intFromEnv("SEGMENT_CACHE_TTL_SECONDS", 120),
+  // Rewritten media playlists are cached for this fraction of their
+  // #EXT-X-TARGETDURATION. 0 disables caching (reloads are still coalesced).
+  playlistCacheFraction: floatFromEnv("PLAYLIST_CACHE_FRACTION", 0.5),
+  // A live playlist whose media sequence does not advance for this many
+  // target durations is considered stalled
+  stallTargetDurations: Math.max(1, floatFromEnv("STALL_TARGET_DURATIONS", 3)),
+  // How long an LL-HLS blocking playlist reload (_HLS_msn) may wait for the
+  // origin's response headers
+  blockingReloadTimeoutMs: Math.max(1000, intFromEnv("PROXY_BLOCKING_RELOAD_TIMEOUT_MS", 30_000)),
+  // MPEG-TS channels repackaged into HLS: segments are cut at the first
+  // keyframe after this many seconds, the playlist lists this many segments,
+  // and the origin stream is closed once nobody has asked for either this long
+  tsSegmentSeconds: Math.max(1, floatFromEnv("TS_SEGMENT_SECONDS", 4)),
+  tsPlaylistWindow: Math.max(3, intFromEnv("TS_PLAYLIST_WINDOW", 6)),
+  tsIdleTimeoutMs: Math.max(5000, intFromEnv("TS_IDLE_TIMEOUT_MS", 30_000)),
+  // How often each M3U subscription's list is re-fetched and applied. 0
+  // disables the scheduled sync (subscriptions can still be synced by hand).
+  subscriptionSyncIntervalMs: intFromEnv("SUBSCRIPTION_SYNC_INTERVAL_MS", 6 * 60 * 60 * 1000),
+}
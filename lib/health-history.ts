@@ -0,0 +1,256 @@
+import { appendFile, mkdir, readFile, rename, unlink } from "fs/promises"
+import { join } from "path"
+import { writeFileAtomic } from "@/lib/atomic-file"
+import { DATA_DIR } from "@/lib/channels"
+import { config } from "@/lib/config"
+import type { ProbeResult } from "@/lib/probe"
+
+export interface HealthSample {
+  timestamp: string
+  ok: boolean
+  latencyMs?: number
+  httpStatus?: number
+  error?: string
+  isMaster?: boolean
+}
+
+export interface HealthSummary {
+  uptime24h: number | null
+  uptime7d: number | null
+  latencyP50: number | null
+  latencyP95: number | null
+}
+
+// Same shape as the channel store's status, shown by the dashboard next to it
+export interface HistoryStatus {
+  ok: boolean
+  error?: string
+  failedAt?: string
+}
+
+// One append-only JSON Lines file per channel: recording a sample appends a
+// line instead of rewriting the history of every channel. Files are compacted
+// (atomically rewritten with only the retained samples) once enough dropped
+// lines pile up.
+const HISTORY_DIR = join(DATA_DIR, "health")
+// Single file used before, split into HISTORY_DIR on first use
+const LEGACY_FILE = join(DATA_DIR, "health.json")
+
+const HOUR_MS = 60 * 60 * 1000
+
+interface Series {
+  samples: HealthSample[]
+  // Lines in the file, retained or not
+  lines: number
+}
+
+// Loaded series are cached, so reads never re-parse the files. State lives on
+// globalThis so every route bundle shares one cache and one write queue.
+interface HistoryState {
+  // Pending loads are shared, so a read and a write never load twice
+  series: Map<string, Promise<Series>>
+  queue: Promise<unknown>
+  ready?: Promise<void>
+  status: HistoryStatus
+}
+
+const globalForHistory = globalThis as unknown as { healthHistory?: HistoryState }
+
+function state(): HistoryState {
+  if (!globalForHistory.healthHistory) {
+    globalForHistory.healthHistory = { series: new Map(), queue: Promise.resolve(), status: { ok: true } }
+  }
+  return globalForHistory.healthHistory
+}
+
+export function getHistoryStatus(): HistoryStatus {
+  return state().status
+}
+
+// Ids become file names: anything but [A-Za-z0-9_-] is escaped
+function historyFile(channelId: string): string {
+  const name = channelId.replace(/[^A-Za-z0-9_-]/g, (c) => `%${c.charCodeAt(0).toString(16).padStart(2, "0")}`)
+  return join(HISTORY_DIR, `${name}.jsonl`)
+}
+
+// Runs one storage operation and keeps the status current. Failures are
+// logged and rethrown, never replaced by an in-memory copy.
+async function withHistory<T>(operation: () => Promise<T>): Promise<T> {
+  const current = state()
+  try {
+    current.ready ??= migrateLegacyFile().catch((e) => {
+      current.ready = undefined
+      throw e
+    })
+    await current.ready
+    const result = await operation()
+    current.status = { ok: true }
+    return result
+  } catch (e) {
+    const error = e instanceof Error ? e.message : String(e)
+    if (current.status.error !== error) console.error("[health] History storage failed:", error)
+    current.status = { ok: false, error, failedAt: new Date().toISOString() }
+    throw e
+  }
+}
+
+// Writes run one at a time, so concurrent probes cannot lose each other's samples
+function mutate<T>(operation: () => Promise<T>): Promise<T> {
+  const current = state()
+  const run = current.queue.then(() => withHistory(operation))
+  current.queue = run.catch(() => {})
+  return run
+}
+
+async function migrateLegacyFile(): Promise<void> {
+  let data: string
+  try {
+    data = await readFile(LEGACY_FILE, "utf-8")
+  } catch (e) {
+    if ((e as NodeJS.ErrnoException).code === "ENOENT") return
+    throw new Error(`Could not read ${LEGACY_FILE}: ${(e as Error).message}`, { cause: e })
+  }
+
+  let history: Record<string, HealthSample[]>
+  try {
+    history = JSON.parse(data)
+  } catch (e) {
+    throw new Error(`${LEGACY_FILE} is not valid JSON`, { cause: e })
+  }
+
+  await mkdir(HISTORY_DIR, { recursive: true })
+  for (const [channelId, samples] of Object.entries(history)) {
+    if (Array.isArray(samples) && samples.length > 0) await writeSeries(channelId, retain(samples))
+  }
+  await rename(LEGACY_FILE, `${LEGACY_FILE}.migrated`)
+  console.log(`[health] Split ${LEGACY_FILE} into ${HISTORY_DIR}`)
+}
+
+function loadSeries(channelId: string): Promise<Series> {
+  const cache = state().series
+  let series = cache.get(channelId)
+  if (!series) {
+    series = readSeries(channelId)
+    cache.set(channelId, series)
+    // A failed load is retried on the next call
+    series.catch(() => {
+      if (cache.get(channelId) === series) cache.delete(channelId)
+    })
+  }
+  return series
+}
+
+async function readSeries(channelId: string): Promise<Series> {
+  let data: string
+  try {
+    data = await readFile(historyFile(channelId), "utf-8")
+  } catch (e) {
+    if ((e as NodeJS.ErrnoException).code !== "ENOENT") {
+      throw new Error(`Could not read the health history of ${channelId}: ${(e as Error).message}`, { cause: e })
+    }
+    data = ""
+  }
+
+  const lines = data.split("\n").filter(Boolean)
+  const samples: HealthSample[] = []
+  for (const line of lines) {
+    // A crash mid-append leaves a partial last line: skip it
+    try {
+      samples.push(JSON.parse(line))
+    } catch {}
+  }
+  return { samples: retain(samples), lines: lines.length }
+}
+
+async function writeSeries(channelId: string, samples: HealthSample[]): Promise<void> {
+  await writeFileAtomic(historyFile(channelId), samples.map((s) => JSON.stringify(s) + "\n").join(""))
+}
+
+// Applies the retention limits (age and count)
+function retain(samples: HealthSample[], now = Date.now()): HealthSample[] {
+  const cutoff = now - config.healthHistoryMaxAgeHours * HOUR_MS
+  return samples
+    .filter((s) => new Date(s.timestamp).getTime() >= cutoff)
+    .slice(-config.healthHistoryMaxSamples)
+}
+
+export function sampleFromProbe(result: ProbeResult, timestamp: string): HealthSample {
+  return {
+    timestamp,
+    ok: result.ok && !result.stalled,
+    latencyMs: result.latencyMs,
+    httpStatus: result.httpStatus,
+    error: result.stalled ? "Stalled" : result.error,
+    isMaster: result.isMaster,
+  }
+}
+
+// Append one sample per channel and apply the retention limits
+export async function recordSamples(samples: Record<string, HealthSample>): Promise<void> {
+  await mutate(async () => {
+    await mkdir(HISTORY_DIR, { recursive: true })
+    for (const [channelId, sample] of Object.entries(samples)) {
+      const series = await loadSeries(channelId)
+      try {
+        await appendFile(historyFile(channelId), JSON.stringify(sample) + "\n", "utf-8")
+      } catch (e) {
+        throw new Error(`Could not write the health history of ${channelId}: ${(e as Error).message}`, { cause: e })
+      }
+      series.samples = retain([...series.samples, sample])
+      series.lines++
+
+      // Rewrite once dropped lines make up a tenth of the file (at least 100)
+      if (series.lines - series.samples.length >= Math.max(100, series.samples.length / 10)) {
+        try {
+          await writeSeries(channelId, series.samples)
+        } catch (e) {
+          throw new Error(`Could not compact the health history of ${channelId}: ${(e as Error).message}`, {
+            cause: e,
+          })
+        }
+        series.lines = series.samples.length
+      }
+    }
+  })
+}
+
+export async function getHistory(channelId: string): Promise<HealthSample[]> {
+  return withHistory(async () => retain((await loadSeries(channelId)).samples))
+}
+
+export async function removeHistory(channelId: string): Promise<void> {
+  await mutate(async () => {
+    state().series.delete(channelId)
+    await unlink(historyFile(channelId)).catch((e) => {
+      if ((e as NodeJS.ErrnoException).code !== "ENOENT") throw e
+    })
+  })
+}
+
+export function summarizeHistory(samples: HealthSample[], now = Date.now()): HealthSummary {
+  const last24h = samples.filter((s) => new Date(s.timestamp).getTime() >= now - 24 * HOUR_MS)
+  const last7d = samples.filter((s) => new Date(s.timestamp).getTime() >= now - 7 * 24 * HOUR_MS)
+  const latencies = last24h
+    .filter((s) => s.ok && s.latencyMs !== undefined)
+    .map((s) => s.latencyMs as number)
+    .sort((a, b) => a - b)
+
+  return {
+    uptime24h: uptime(last24h),
+    uptime7d: uptime(last7d),
+    latencyP50: percentile(latencies, 50),
+    latencyP95: percentile(latencies, 95),
+  }
+}
+
+function uptime(samples: HealthSample[]): number | null {
+  if (samples.length === 0) return null
+  return (samples.filter((s) => s.ok).length / samples.length) * 100
+}
+
+// Nearest-rank percentile over an ascending list
+function percentile(sorted: number[], p: number): number | null {
+  if (sorted.length === 0) return null
+  const rank = Math.ceil((p / 100) * sorted.length)
+  return sorted[Math.min(sorted.length, Math.max(1, rank)) - 1]
+}
@@ -0,0 +1,136 @@
+import { getChannels, updateChannel, type Channel } from "@/lib/channels"
+import { getActiveSourceIndex, getChannelSources, getChannelType, hasSources } from "@/lib/channel-sources"
+import { config } from "@/lib/config"
+import { recordSamples, sampleFromProbe, type HealthSample } from "@/lib/health-history"
+import { probeStream, statusFromProbe, type ProbeResult } from "@/lib/probe"
+import { observeSequence } from "@/lib/stall-detector"
+
+/**
+ * Background health monitor
+ *
+ * Periodically probes every channel's sources and persists the outcome as
+ * Channel.status / Channel.lastChecked, so the dashboard reflects live state
+ * without anyone pressing the test button. Every probe is also appended to the
+ * channel's health history (see lib/health-history.ts).
+ *
+ * State lives on globalThis because Next.js may evaluate this module more than
+ * once (per route bundle, and again on every dev hot reload).
+ */
+
+interface MonitorState {
+  timer: ReturnType<typeof setTimeout> | null
+  running: boolean
+}
+
+const globalForMonitor = globalThis as unknown as { healthMonitor?: MonitorState }
+
+export function startHealthMonitor() {
+  if (globalForMonitor.healthMonitor) return
+  if (config.healthCheckIntervalMs <= 0) {
+    console.log("[health] Monitor disabled (HEALTH_CHECK_INTERVAL_MS=0)")
+    return
+  }
+
+  const state: MonitorState = { timer: null, running: false }
+  globalForMonitor.healthMonitor = state
+
+  const schedule = (delay: number) => {
+    state.timer = setTimeout(tick, delay)
+    // Never keep the process alive just for the monitor
+    state.timer.unref?.()
+  }
+
+  const tick = async () => {
+    try {
+      await checkAllChannels()
+    } catch (e) {
+      console.error("[health] Check run failed:", e)
+    } finally {
+      schedule(config.healthCheckIntervalMs)
+    }
+  }
+
+  console.log(`[health] Monitor started, interval ${config.healthCheckIntervalMs}ms`)
+  schedule(0)
+}
+
+export function stopHealthMonitor() {
+  const state = globalForMonitor.healthMonitor
+  if (!state) return
+  if (state.timer) clearTimeout(state.timer)
+  globalForMonitor.healthMonitor = undefined
+}
+
+// Probe every channel once and persist the results. Overlapping runs are skipped.
+export async function checkAllChannels(): Promise<void> {
+  const state = globalForMonitor.healthMonitor
+  if (state?.running) return
+  if (state) state.running = true
+
+  try {
+    const channels = await getChannels()
+    const results = await mapWithConcurrency(channels, config.healthCheckConcurrency, async (channel) => {
+      const check = await checkChannel(channel)
+      return { ...check, checkedAt: new Date().toISOString() }
+    })
+
+    // Persist sequentially: updateChannel is a read-modify-write of the whole store.
+    // A channel whose sources were edited while it was being probed keeps
+    // what the edit wrote; the next run checks the new sources.
+    const samples: Record<string, HealthSample> = {}
+    for (let i = 0; i < channels.length; i++) {
+      const { result, sourceIndex, checkedAt } = results[i]
+      const probed = getChannelSources(channels[i])
+      let applied = false
+      await updateChannel(channels[i].id, (existing) => {
+        if (!hasSources(existing, probed)) return {}
+        applied = true
+        return { status: statusFromProbe(result), lastChecked: checkedAt, activeSourceIndex: sourceIndex }
+      })
+      if (applied) samples[channels[i].id] = sampleFromProbe(result, checkedAt)
+    }
+    await recordSamples(samples)
+  } finally {
+    if (state) state.running = false
+  }
+}
+
+// Probe the active source first, then the others in failover order. The
+// first healthy source becomes the active one; if none is healthy the active
+// source stays and its result is reported. A source that answers but whose
+// media sequence stopped advancing is not healthy.
+export async function checkChannel(channel: Channel): Promise<{ result: ProbeResult; sourceIndex: number }> {
+  const sources = getChannelSources(channel)
+  const active = getActiveSourceIndex(channel)
+
+  let activeResult: ProbeResult | null = null
+  for (let n = 0; n < sources.length; n++) {
+    const index = (active + n) % sources.length
+    const result = await probeStream(sources[index], channel.customHeaders, getChannelType(channel))
+    if (result.ok && result.sequence) {
+      result.stalled = observeSequence(`probe|${channel.id}|${sources[index]}`, result.sequence) === "stalled"
+    }
+    if (result.ok && !result.stalled) return { result, sourceIndex: index }
+    activeResult ??= result
+  }
+  return { result: activeResult as ProbeResult, sourceIndex: active }
+}
+
+async function mapWithConcurrency<T, R>(
+  items: T[],
+  limit: number,
+  fn: (item: T) => Promise<R>,
+): Promise<R[]> {
+  const results = new Array<R>(items.length)
+  let next = 0
+
+  async function worker() {
+    while (next < items.length) {
+      const i = next++
+      results[i] = await fn(items[i])
+    }
+  }
+
+  await Promise.all(Array.from({ length: Math.min(limit, items.length) }, worker))
+  return results
+}
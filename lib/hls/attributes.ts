@@ -0,0 +1,62 @@
+import type { Attribute } from "@/lib/hls/types"
+
+/**
+ * HLS attribute lists (RFC 8216 §4.2)
+ *
+ * Comma separated NAME=VALUE pairs where quoted strings may contain commas
+ * (CODECS="avc1.64001f,mp4a.40.2"). Attributes keep their order and quoting
+ * so a parsed list formats back to the same text unless it was modified.
+ */
+
+export function parseAttributeList(input: string): Attribute[] {
+  const attributes: Attribute[] = []
+  let i = 0
+
+  while (i < input.length) {
+    const eq = input.indexOf("=", i)
+    if (eq === -1) break
+    const name = input.slice(i, eq).trim()
+    i = eq + 1
+
+    let value: string
+    let quoted = false
+    if (input[i] === '"') {
+      const close = input.indexOf('"', i + 1)
+      const end = close === -1 ? input.length : close
+      value = input.slice(i + 1, end)
+      quoted = true
+      i = end + 1
+    } else {
+      const comma = input.indexOf(",", i)
+      const end = comma === -1 ? input.length : comma
+      value = input.slice(i, end).trim()
+      i = end
+    }
+
+    if (name) attributes.push({ name, value, quoted })
+    // Skip the separator (and anything malformed up to it)
+    const comma = input.indexOf(",", i)
+    i = comma === -1 ? input.length : comma + 1
+  }
+
+  return attributes
+}
+
+export function formatAttributeList(attributes: Attribute[]): string {
+  return attributes.map((a) => `${a.name}=${a.quoted ? `"${a.value}"` : a.value}`).join(",")
+}
+
+export function getAttribute(attributes: Attribute[], name: string): string | undefined {
+  return attributes.find((a) => a.name === name)?.value
+}
+
+export function removeAttribute(attributes: Attribute[], name: string): Attribute[] {
+  return attributes.filter((a) => a.name !== name)
+}
+
+// Replaces the value in place, or appends the attribute when it is missing
+export function setAttribute(attributes: Attribute[], name: string, value: string, quoted = false): Attribute[] {
+  const index = attributes.findIndex((a) => a.name === name)
+  if (index === -1) return [...attributes, { name, value, quoted }]
+  return attributes.map((a, i) => (i === index ? { ...a, value } : a))
+}
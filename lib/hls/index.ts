@@ -0,0 +1,7 @@
+// HLS playlist parsing, serialization and transformation. Everything that
+// reads or rewrites playlists goes through this module.
+export * from "@/lib/hls/types"
+export { formatAttributeList, getAttribute, parseAttributeList, removeAttribute, setAttribute } from "@/lib/hls/attributes"
+export { parsePlaylist, PlaylistParseError } from "@/lib/hls/parse"
+export { serializePlaylist } from "@/lib/hls/serialize"
+export { mapUris } from "@/lib/hls/transform"
@@ -0,0 +1,166 @@
+import { describe, expect, it } from "vitest"
+import { parsePlaylist, PlaylistParseError, serializePlaylist, type MasterPlaylist, type MediaPlaylist } from "@/lib/hls"
+
+// Fixtures are written in the serializer's canonical tag order, so a round
+// trip must give back the same text
+const MASTER = `#EXTM3U
+#EXT-X-VERSION:6
+#EXT-X-INDEPENDENT-SEGMENTS
+#EXT-X-SESSION-DATA:DATA-ID="com.example.title",VALUE="Live"
+#EXT-X-MEDIA:TYPE=AUDIO,GROUP-ID="aac",LANGUAGE="en",NAME="English",DEFAULT=YES,AUTOSELECT=YES,URI="audio/en.m3u8"
+#EXT-X-MEDIA:TYPE=AUDIO,GROUP-ID="aac",LANGUAGE="es",NAME="Español",DEFAULT=NO,URI="audio/es.m3u8"
+#EXT-X-STREAM-INF:BANDWIDTH=800000,RESOLUTION=640x360,CODECS="avc1.4d401e,mp4a.40.2",AUDIO="aac"
+low/index.m3u8
+#EXT-X-STREAM-INF:BANDWIDTH=5000000,RESOLUTION=1920x1080,CODECS="avc1.640028,mp4a.40.2",AUDIO="aac"
+../hi/index.m3u8?token=1
+#EXT-X-I-FRAME-STREAM-INF:BANDWIDTH=100000,URI="iframes.m3u8"
+`
+
+const MEDIA = `#EXTM3U
+#EXT-X-VERSION:3
+#EXT-X-TARGETDURATION:6
+#EXT-X-MEDIA-SEQUENCE:2680
+#EXT-X-DISCONTINUITY-SEQUENCE:3
+#EXT-X-KEY:METHOD=AES-128,URI="https://keys.example.com/k1",IV=0x00000000000000000000000000000001
+#EXT-X-PROGRAM-DATE-TIME:2026-10-19T12:00:00.000Z
+#EXTINF:6.006,Opening
+seg2680.ts
+#EXTINF:5.994,
+seg2681.ts
+#EXT-X-DISCONTINUITY
+#EXT-X-GAP
+#EXTINF:6,
+seg2682.ts
+#EXT-X-ENDLIST
+`
+
+const LOW_LATENCY = `#EXTM3U
+#EXT-X-VERSION:9
+#EXT-X-TARGETDURATION:4
+#EXT-X-SERVER-CONTROL:CAN-BLOCK-RELOAD=YES,CAN-SKIP-UNTIL=24,PART-HOLD-BACK=1.0
+#EXT-X-PART-INF:PART-TARGET=0.5
+#EXT-X-MEDIA-SEQUENCE:100
+#EXT-X-MAP:URI="init.mp4"
+#EXT-X-PART:DURATION=0.5,URI="seg100.0.m4s",INDEPENDENT=YES
+#EXT-X-PART:DURATION=0.5,URI="seg100.1.m4s"
+#EXTINF:4,
+seg100.m4s
+#EXT-X-PART:DURATION=0.5,URI="seg101.0.m4s",INDEPENDENT=YES
+#EXT-X-PART:DURATION=0.5,URI="seg101.1.m4s"
+#EXT-X-PRELOAD-HINT:TYPE=PART,URI="seg101.2.m4s"
+#EXT-X-RENDITION-REPORT:URI="../low/index.m3u8",LAST-MSN=101,LAST-PART=1
+`
+
+const BYTE_RANGE = `#EXTM3U
+#EXT-X-VERSION:4
+#EXT-X-TARGETDURATION:10
+#EXT-X-MEDIA-SEQUENCE:0
+#EXT-X-PLAYLIST-TYPE:VOD
+#EXTINF:10,
+#EXT-X-BYTERANGE:75232@0
+main.ts
+#EXTINF:10,
+#EXT-X-BYTERANGE:82112
+main.ts
+#EXTINF:10,
+#EXT-X-BYTERANGE:69864@157344
+main.ts
+#EXT-X-ENDLIST
+`
+
+function roundTrip(text: string): string {
+  return serializePlaylist(parsePlaylist(text))
+}
+
+describe("parsePlaylist / serializePlaylist", () => {
+  it("round-trips a master playlist", () => {
+    expect(roundTrip(MASTER)).toBe(MASTER)
+
+    const playlist = parsePlaylist(MASTER) as MasterPlaylist
+    expect(playlist.type).toBe("master")
+    expect(playlist.version).toBe(6)
+    expect(playlist.independentSegments).toBe(true)
+    expect(playlist.renditions).toHaveLength(2)
+    expect(playlist.variants.map((v) => v.uri)).toEqual(["low/index.m3u8", "../hi/index.m3u8?token=1"])
+    // Quoted values keep their commas
+    expect(playlist.variants[0].attributes.find((a) => a.name === "CODECS")?.value).toBe("avc1.4d401e,mp4a.40.2")
+    expect(playlist.iFrameVariants).toHaveLength(1)
+  })
+
+  it("round-trips a media playlist", () => {
+    expect(roundTrip(MEDIA)).toBe(MEDIA)
+
+    const playlist = parsePlaylist(MEDIA) as MediaPlaylist
+    expect(playlist.type).toBe("media")
+    expect(playlist.targetDuration).toBe(6)
+    expect(playlist.mediaSequence).toBe(2680)
+    expect(playlist.discontinuitySequence).toBe(3)
+    expect(playlist.endList).toBe(true)
+    expect(playlist.segments.map((s) => s.duration)).toEqual([6.006, 5.994, 6])
+    expect(playlist.segments[0].title).toBe("Opening")
+    expect(playlist.segments[0].keys).toHaveLength(1)
+    expect(playlist.segments[0].programDateTime).toBe("2026-10-19T12:00:00.000Z")
+    expect(playlist.segments[2]).toMatchObject({ discontinuity: true, gap: true })
+  })
+
+  it("round-trips an LL-HLS playlist with parts, preload hints and rendition reports", () => {
+    expect(roundTrip(LOW_LATENCY)).toBe(LOW_LATENCY)
+
+    const playlist = parsePlaylist(LOW_LATENCY) as MediaPlaylist
+    expect(playlist.serverControl?.attributes.map((a) => a.name)).toEqual([
+      "CAN-BLOCK-RELOAD",
+      "CAN-SKIP-UNTIL",
+      "PART-HOLD-BACK",
+    ])
+    expect(playlist.partInf?.attributes[0]).toMatchObject({ name: "PART-TARGET", value: "0.5" })
+    expect(playlist.segments).toHaveLength(1)
+    expect(playlist.segments[0].parts).toHaveLength(2)
+    expect(playlist.segments[0].map?.attributes[0].value).toBe("init.mp4")
+    // Parts of the segment still in progress
+    expect(playlist.pending?.parts.map((p) => p.attributes.find((a) => a.name === "URI")?.value)).toEqual([
+      "seg101.0.m4s",
+      "seg101.1.m4s",
+    ])
+    expect(playlist.preloadHints).toHaveLength(1)
+    expect(playlist.renditionReports[0].attributes).toContainEqual({ name: "LAST-MSN", value: "101", quoted: false })
+  })
+
+  it("round-trips byte-range segments", () => {
+    expect(roundTrip(BYTE_RANGE)).toBe(BYTE_RANGE)
+
+    const playlist = parsePlaylist(BYTE_RANGE) as MediaPlaylist
+    expect(playlist.playlistType).toBe("VOD")
+    expect(playlist.segments.map((s) => s.byteRange)).toEqual([
+      { length: 75232, offset: 0 },
+      { length: 82112, offset: undefined },
+      { length: 69864, offset: 157344 },
+    ])
+  })
+
+  it("keeps unknown tags where they appeared", () => {
+    const text = `#EXTM3U
+#EXT-X-TARGETDURATION:6
+#EXT-X-MEDIA-SEQUENCE:0
+#EXT-X-VENDOR-PLAYLIST:A=1
+#EXTINF:6,
+seg0.ts
+#EXT-X-CUE-OUT:30
+#EXTINF:6,
+seg1.ts
+`
+    expect(roundTrip(text)).toBe(text)
+    const playlist = parsePlaylist(text) as MediaPlaylist
+    expect(playlist.tags).toEqual([{ name: "EXT-X-VENDOR-PLAYLIST", value: "A=1" }])
+    expect(playlist.segments[1].tags).toEqual([{ name: "EXT-X-CUE-OUT", value: "30" }])
+  })
+
+  it("tolerates CRLF line endings, a BOM and blank lines", () => {
+    const playlist = parsePlaylist("﻿#EXTM3U\r\n\r\n#EXT-X-TARGETDURATION:6\r\n#EXTINF:6,\r\nseg.ts\r\n")
+    expect(playlist.type).toBe("media")
+    expect((playlist as MediaPlaylist).segments[0].uri).toBe("seg.ts")
+  })
+
+  it("rejects text without an #EXTM3U header", () => {
+    expect(() => parsePlaylist("<html>not a playlist</html>")).toThrow(PlaylistParseError)
+  })
+})
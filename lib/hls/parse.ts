@@ -0,0 +1,276 @@
+import { parseAttributeList } from "@/lib/hls/attributes"
+import type {
+  AttributeTag,
+  ByteRange,
+  MasterPlaylist,
+  MediaPlaylist,
+  Playlist,
+  SegmentTags,
+  Tag,
+  Variant,
+} from "@/lib/hls/types"
+
+export class PlaylistParseError extends Error {
+  constructor(message: string) {
+    super(message)
+    this.name = "PlaylistParseError"
+  }
+}
+
+// Tags that only appear in master playlists; any of them makes the playlist a master
+const MASTER_TAGS = new Set([
+  "EXT-X-STREAM-INF",
+  "EXT-X-I-FRAME-STREAM-INF",
+  "EXT-X-MEDIA",
+  "EXT-X-SESSION-DATA",
+  "EXT-X-SESSION-KEY",
+  "EXT-X-CONTENT-STEERING",
+])
+
+// Parses a playlist of either kind. Only a missing #EXTM3U header is fatal:
+// origins are sloppy, so malformed values fall back to defaults and unknown
+// tags are kept as they are.
+export function parsePlaylist(text: string): Playlist {
+  const lines = text
+    .replace(/^\uFEFF/, "")
+    .split(/\r?\n/)
+    .map((l) => l.trim())
+    .filter((l) => l.length > 0)
+
+  // Tolerate junk before the header, but not a missing one
+  const header = lines.findIndex((l) => l === "#EXTM3U" || l.startsWith("#EXTM3U "))
+  if (header === -1) throw new PlaylistParseError("Missing #EXTM3U header")
+  const body = lines.slice(header + 1)
+
+  const isMaster = body.some((l) => l.startsWith("#") && MASTER_TAGS.has(splitTag(l).name))
+  return isMaster ? parseMaster(body) : parseMedia(body)
+}
+
+// "#NAME:value" → { name, value }; "#NAME" → { name }
+function splitTag(line: string): Tag {
+  const colon = line.indexOf(":")
+  if (colon === -1) return { name: line.slice(1) }
+  return { name: line.slice(1, colon), value: line.slice(colon + 1) }
+}
+
+function attributeTag(raw: Tag): AttributeTag {
+  return { name: raw.name, attributes: parseAttributeList(raw.value ?? "") }
+}
+
+function toNumber(value: string | undefined, fallback: number): number {
+  const n = Number(value?.trim())
+  return value !== undefined && value.trim() !== "" && Number.isFinite(n) ? n : fallback
+}
+
+// ── Media playlists ────────────────────────────────────────────────────────
+
+function emptySegmentTags(): SegmentTags {
+  return { discontinuity: false, gap: false, keys: [], dateRanges: [], parts: [], tags: [] }
+}
+
+function hasSegmentTags(s: SegmentTags): boolean {
+  return (
+    s.discontinuity ||
+    s.gap ||
+    s.programDateTime !== undefined ||
+    s.map !== undefined ||
+    s.keys.length > 0 ||
+    s.dateRanges.length > 0 ||
+    s.parts.length > 0 ||
+    s.tags.length > 0
+  )
+}
+
+// "<length>[@<offset>]"
+function parseByteRange(value: string | undefined): ByteRange | undefined {
+  const match = /^(\d+)(?:@(\d+))?$/.exec(value?.trim() ?? "")
+  if (!match) return undefined
+  return { length: Number(match[1]), offset: match[2] !== undefined ? Number(match[2]) : undefined }
+}
+
+function parseMedia(lines: string[]): MediaPlaylist {
+  const playlist: MediaPlaylist = {
+    type: "media",
+    independentSegments: false,
+    targetDuration: 0,
+    mediaSequence: 0,
+    discontinuitySequence: 0,
+    iFramesOnly: false,
+    endList: false,
+    defines: [],
+    segments: [],
+    preloadHints: [],
+    renditionReports: [],
+    tags: [],
+  }
+
+  let current = emptySegmentTags()
+  let duration: number | undefined
+  let title: string | undefined
+  let byteRange: ByteRange | undefined
+
+  for (const line of lines) {
+    if (!line.startsWith("#")) {
+      playlist.segments.push({ ...current, uri: line, duration: duration ?? 0, title, byteRange })
+      current = emptySegmentTags()
+      duration = title = byteRange = undefined
+      continue
+    }
+
+    const raw = splitTag(line)
+    switch (raw.name) {
+      case "EXT-X-VERSION":
+        playlist.version = toNumber(raw.value, 1)
+        break
+      case "EXT-X-INDEPENDENT-SEGMENTS":
+        playlist.independentSegments = true
+        break
+      case "EXT-X-TARGETDURATION":
+        playlist.targetDuration = toNumber(raw.value, 0)
+        break
+      case "EXT-X-MEDIA-SEQUENCE":
+        playlist.mediaSequence = toNumber(raw.value, 0)
+        break
+      case "EXT-X-DISCONTINUITY-SEQUENCE":
+        playlist.discontinuitySequence = toNumber(raw.value, 0)
+        break
+      case "EXT-X-PLAYLIST-TYPE":
+        playlist.playlistType = raw.value?.trim()
+        break
+      case "EXT-X-I-FRAMES-ONLY":
+        playlist.iFramesOnly = true
+        break
+      case "EXT-X-ENDLIST":
+        playlist.endList = true
+        break
+      case "EXT-X-START":
+        playlist.start = attributeTag(raw)
+        break
+      case "EXT-X-DEFINE":
+        playlist.defines.push(attributeTag(raw))
+        break
+      case "EXT-X-SERVER-CONTROL":
+        playlist.serverControl = attributeTag(raw)
+        break
+      case "EXT-X-PART-INF":
+        playlist.partInf = attributeTag(raw)
+        break
+      case "EXT-X-SKIP":
+        playlist.skip = attributeTag(raw)
+        break
+      case "EXT-X-PRELOAD-HINT":
+        playlist.preloadHints.push(attributeTag(raw))
+        break
+      case "EXT-X-RENDITION-REPORT":
+        playlist.renditionReports.push(attributeTag(raw))
+        break
+      case "EXTINF": {
+        const value = raw.value ?? ""
+        const comma = value.indexOf(",")
+        duration = toNumber(comma === -1 ? value : value.slice(0, comma), 0)
+        title = comma === -1 || comma === value.length - 1 ? undefined : value.slice(comma + 1)
+        break
+      }
+      case "EXT-X-BYTERANGE":
+        byteRange = parseByteRange(raw.value)
+        break
+      case "EXT-X-DISCONTINUITY":
+        current.discontinuity = true
+        break
+      case "EXT-X-GAP":
+        current.gap = true
+        break
+      case "EXT-X-PROGRAM-DATE-TIME":
+        current.programDateTime = raw.value?.trim()
+        break
+      case "EXT-X-KEY":
+        current.keys.push(attributeTag(raw))
+        break
+      case "EXT-X-MAP":
+        current.map = attributeTag(raw)
+        break
+      case "EXT-X-DATERANGE":
+        current.dateRanges.push(attributeTag(raw))
+        break
+      case "EXT-X-PART":
+        current.parts.push(attributeTag(raw))
+        break
+      default: {
+        // Unknown tags before the first segment belong to the playlist
+        const beforeSegments = playlist.segments.length === 0 && !hasSegmentTags(current) && duration === undefined
+        if (beforeSegments) playlist.tags.push(raw)
+        else current.tags.push(raw)
+      }
+    }
+  }
+
+  if (hasSegmentTags(current)) playlist.pending = current
+  return playlist
+}
+
+// ── Master playlists ───────────────────────────────────────────────────────
+
+function parseMaster(lines: string[]): MasterPlaylist {
+  const playlist: MasterPlaylist = {
+    type: "master",
+    independentSegments: false,
+    defines: [],
+    sessionData: [],
+    sessionKeys: [],
+    renditions: [],
+    variants: [],
+    iFrameVariants: [],
+    tags: [],
+  }
+
+  // The #EXT-X-STREAM-INF waiting for its URI line
+  let variant: Variant | null = null
+
+  for (const line of lines) {
+    if (!line.startsWith("#")) {
+      // A URI without a preceding #EXT-X-STREAM-INF has no meaning and is dropped
+      if (variant) playlist.variants.push({ ...variant, uri: line })
+      variant = null
+      continue
+    }
+
+    const raw = splitTag(line)
+    switch (raw.name) {
+      case "EXT-X-VERSION":
+        playlist.version = toNumber(raw.value, 1)
+        break
+      case "EXT-X-INDEPENDENT-SEGMENTS":
+        playlist.independentSegments = true
+        break
+      case "EXT-X-START":
+        playlist.start = attributeTag(raw)
+        break
+      case "EXT-X-DEFINE":
+        playlist.defines.push(attributeTag(raw))
+        break
+      case "EXT-X-SESSION-DATA":
+        playlist.sessionData.push(attributeTag(raw))
+        break
+      case "EXT-X-SESSION-KEY":
+        playlist.sessionKeys.push(attributeTag(raw))
+        break
+      case "EXT-X-CONTENT-STEERING":
+        playlist.contentSteering = attributeTag(raw)
+        break
+      case "EXT-X-MEDIA":
+        playlist.renditions.push(attributeTag(raw))
+        break
+      case "EXT-X-I-FRAME-STREAM-INF":
+        playlist.iFrameVariants.push(attributeTag(raw))
+        break
+      case "EXT-X-STREAM-INF":
+        variant = { attributes: attributeTag(raw).attributes, uri: "", tags: [] }
+        break
+      default:
+        if (variant) variant.tags.push(raw)
+        else playlist.tags.push(raw)
+    }
+  }
+
+  return playlist
+}
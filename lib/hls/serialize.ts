@@ -0,0 +1,91 @@
+import { formatAttributeList } from "@/lib/hls/attributes"
+import type { AttributeTag, MasterPlaylist, MediaPlaylist, Playlist, SegmentTags, Tag } from "@/lib/hls/types"
+
+// Writes tags in the canonical order of RFC 8216 §4.4 rather than the order
+// they were read in; the result is equivalent, not byte-identical.
+export function serializePlaylist(playlist: Playlist): string {
+  const lines = playlist.type === "master" ? serializeMaster(playlist) : serializeMedia(playlist)
+  return ["#EXTM3U", ...lines].join("\n") + "\n"
+}
+
+function tagLine(tag: Tag): string {
+  return tag.value === undefined ? `#${tag.name}` : `#${tag.name}:${tag.value}`
+}
+
+function attributeLine(tag: AttributeTag): string {
+  return `#${tag.name}:${formatAttributeList(tag.attributes)}`
+}
+
+function optional<T>(value: T | undefined, format: (value: T) => string): string[] {
+  return value === undefined ? [] : [format(value)]
+}
+
+// ── Media playlists ────────────────────────────────────────────────────────
+
+function serializeSegmentTags(s: SegmentTags): string[] {
+  return [
+    ...(s.discontinuity ? ["#EXT-X-DISCONTINUITY"] : []),
+    ...s.keys.map(attributeLine),
+    ...optional(s.map, attributeLine),
+    ...optional(s.programDateTime, (v) => `#EXT-X-PROGRAM-DATE-TIME:${v}`),
+    ...s.dateRanges.map(attributeLine),
+    ...s.tags.map(tagLine),
+    ...(s.gap ? ["#EXT-X-GAP"] : []),
+    ...s.parts.map(attributeLine),
+  ]
+}
+
+function serializeMedia(p: MediaPlaylist): string[] {
+  const lines = [
+    ...optional(p.version, (v) => `#EXT-X-VERSION:${v}`),
+    ...(p.independentSegments ? ["#EXT-X-INDEPENDENT-SEGMENTS"] : []),
+    `#EXT-X-TARGETDURATION:${p.targetDuration}`,
+    ...optional(p.serverControl, attributeLine),
+    ...optional(p.partInf, attributeLine),
+    `#EXT-X-MEDIA-SEQUENCE:${p.mediaSequence}`,
+    ...(p.discontinuitySequence > 0 ? [`#EXT-X-DISCONTINUITY-SEQUENCE:${p.discontinuitySequence}`] : []),
+    ...optional(p.playlistType, (v) => `#EXT-X-PLAYLIST-TYPE:${v}`),
+    ...(p.iFramesOnly ? ["#EXT-X-I-FRAMES-ONLY"] : []),
+    ...optional(p.start, attributeLine),
+    ...p.defines.map(attributeLine),
+    ...p.tags.map(tagLine),
+    ...optional(p.skip, attributeLine),
+  ]
+
+  for (const segment of p.segments) {
+    lines.push(...serializeSegmentTags(segment))
+    lines.push(`#EXTINF:${segment.duration},${segment.title ?? ""}`)
+    if (segment.byteRange) {
+      const { length, offset } = segment.byteRange
+      lines.push(`#EXT-X-BYTERANGE:${length}${offset !== undefined ? `@${offset}` : ""}`)
+    }
+    lines.push(segment.uri)
+  }
+
+  if (p.pending) lines.push(...serializeSegmentTags(p.pending))
+  lines.push(...p.preloadHints.map(attributeLine), ...p.renditionReports.map(attributeLine))
+  if (p.endList) lines.push("#EXT-X-ENDLIST")
+  return lines
+}
+
+// ── Master playlists ───────────────────────────────────────────────────────
+
+function serializeMaster(p: MasterPlaylist): string[] {
+  return [
+    ...optional(p.version, (v) => `#EXT-X-VERSION:${v}`),
+    ...(p.independentSegments ? ["#EXT-X-INDEPENDENT-SEGMENTS"] : []),
+    ...optional(p.start, attributeLine),
+    ...p.defines.map(attributeLine),
+    ...p.tags.map(tagLine),
+    ...p.sessionData.map(attributeLine),
+    ...p.sessionKeys.map(attributeLine),
+    ...optional(p.contentSteering, attributeLine),
+    ...p.renditions.map(attributeLine),
+    ...p.variants.flatMap((v) => [
+      `#EXT-X-STREAM-INF:${formatAttributeList(v.attributes)}`,
+      ...v.tags.map(tagLine),
+      v.uri,
+    ]),
+    ...p.iFrameVariants.map(attributeLine),
+  ]
+}
@@ -0,0 +1,72 @@
+import { describe, expect, it } from "vitest"
+import { mapUris, parsePlaylist, serializePlaylist } from "@/lib/hls"
+
+const mark = (uri: string) => `proxied:${uri}`
+
+function rewrite(text: string): string {
+  return serializePlaylist(mapUris(parsePlaylist(text), mark))
+}
+
+describe("mapUris", () => {
+  it("maps variant, rendition, session and steering URIs of master playlists", () => {
+    const out = rewrite(
+      [
+        "#EXTM3U",
+        '#EXT-X-CONTENT-STEERING:SERVER-URI="steering.json",PATHWAY-ID="CDN"',
+        '#EXT-X-SESSION-KEY:METHOD=AES-128,URI="key"',
+        '#EXT-X-MEDIA:TYPE=AUDIO,GROUP-ID="aac",NAME="en",URI="audio/en.m3u8"',
+        '#EXT-X-STREAM-INF:BANDWIDTH=800000,AUDIO="aac"',
+        "low/index.m3u8",
+        '#EXT-X-I-FRAME-STREAM-INF:BANDWIDTH=100000,URI="iframe.m3u8"',
+      ].join("\n"),
+    )
+    expect(out).toContain('SERVER-URI="proxied:steering.json"')
+    expect(out).toContain('URI="proxied:key"')
+    expect(out).toContain('URI="proxied:audio/en.m3u8"')
+    expect(out).toContain("\nproxied:low/index.m3u8\n")
+    expect(out).toContain('URI="proxied:iframe.m3u8"')
+  })
+
+  it("maps URI attributes of tags the parser does not model", () => {
+    const master = rewrite(
+      [
+        "#EXTM3U",
+        '#EXT-X-IMAGE-STREAM-INF:BANDWIDTH=1000,RESOLUTION=320x180,CODECS="jpeg",URI="thumbs/index.m3u8"',
+        "#EXT-X-STREAM-INF:BANDWIDTH=800000",
+        '#EXT-X-VENDOR-HINT:URI="hint.json"',
+        "low/index.m3u8",
+      ].join("\n"),
+    )
+    expect(master).toContain('URI="proxied:thumbs/index.m3u8"')
+    expect(master).toContain('#EXT-X-VENDOR-HINT:URI="proxied:hint.json"')
+
+    const media = rewrite(
+      [
+        "#EXTM3U",
+        "#EXT-X-TARGETDURATION:6",
+        '#EXT-X-VENDOR-PLAYLIST:ID=1,URI="meta.json"',
+        '#EXT-X-ASSET:CAID=1,URI="asset.xml"',
+        "#EXTINF:6,",
+        "seg1.ts",
+      ].join("\n"),
+    )
+    expect(media).toContain('#EXT-X-VENDOR-PLAYLIST:ID=1,URI="proxied:meta.json"')
+    expect(media).toContain('#EXT-X-ASSET:CAID=1,URI="proxied:asset.xml"')
+    expect(media).toContain("\nproxied:seg1.ts\n")
+  })
+
+  it("leaves other attributes and plain tag values alone", () => {
+    const out = rewrite(
+      [
+        "#EXTM3U",
+        "#EXT-X-TARGETDURATION:6",
+        '#EXT-X-VENDOR:NAME="URI=inside",NOTE=x',
+        "#EXT-X-COMMENT:free text with URI=\"x\" in it",
+        "#EXTINF:6,",
+        "seg1.ts",
+      ].join("\n"),
+    )
+    expect(out).toContain('#EXT-X-VENDOR:NAME="URI=inside",NOTE=x')
+    expect(out).toContain('#EXT-X-COMMENT:free text with URI="x" in it')
+  })
+})
@@ -0,0 +1,60 @@
+import type { AttributeTag, MediaSegment, Playlist, SegmentTags, Tag } from "@/lib/hls/types"
+
+// Attributes holding a URI: URI itself, and *-URI ones such as SERVER-URI
+// (content steering) and X-ASSET-URI (interstitials)
+const isUriAttribute = (name: string) => name === "URI" || name.endsWith("-URI")
+
+// The same, quoted, inside the raw value of a tag the parser does not model
+const RAW_URI_ATTRIBUTE = /(^|,)(\s*(?:[A-Z0-9-]*-)?URI\s*=\s*)"([^"]*)"/g
+
+// ── URI mapping ────────────────────────────────────────────────────────────
+// Returns a copy of the playlist with every URI it references passed through
+// `map`: segment and variant URIs, and the URI attributes of any tag (keys,
+// maps, renditions, parts, preload hints, rendition reports, ...), including
+// tags the parser keeps as raw text (EXT-X-IMAGE-STREAM-INF, vendor tags).
+export function mapUris(playlist: Playlist, map: (uri: string) => string): Playlist {
+  const tag = (t: AttributeTag): AttributeTag => ({
+    ...t,
+    attributes: t.attributes.map((a) => (isUriAttribute(a.name) ? { ...a, value: map(a.value) } : a)),
+  })
+  const tags = (list: AttributeTag[]) => list.map(tag)
+  const optional = (t: AttributeTag | undefined) => (t ? tag(t) : undefined)
+  const rawTags = (list: Tag[]) =>
+    list.map((t): Tag => {
+      if (t.value === undefined) return t
+      return { ...t, value: t.value.replace(RAW_URI_ATTRIBUTE, (_, start, name, uri) => `${start}${name}"${map(uri)}"`) }
+    })
+
+  if (playlist.type === "master") {
+    return {
+      ...playlist,
+      sessionData: tags(playlist.sessionData),
+      sessionKeys: tags(playlist.sessionKeys),
+      renditions: tags(playlist.renditions),
+      variants: playlist.variants.map((v) => ({ ...v, uri: map(v.uri), tags: rawTags(v.tags) })),
+      iFrameVariants: tags(playlist.iFrameVariants),
+      contentSteering: optional(playlist.contentSteering),
+      tags: rawTags(playlist.tags),
+    }
+  }
+
+  function segmentTags<T extends SegmentTags>(s: T): T {
+    return {
+      ...s,
+      keys: tags(s.keys),
+      map: optional(s.map),
+      dateRanges: tags(s.dateRanges),
+      parts: tags(s.parts),
+      tags: rawTags(s.tags),
+    }
+  }
+
+  return {
+    ...playlist,
+    segments: playlist.segments.map((s): MediaSegment => ({ ...segmentTags(s), uri: map(s.uri) })),
+    pending: playlist.pending ? segmentTags(playlist.pending) : undefined,
+    preloadHints: tags(playlist.preloadHints),
+    renditionReports: tags(playlist.renditionReports),
+    tags: rawTags(playlist.tags),
+  }
+}
@@ -0,0 +1,110 @@
+/**
+ * HLS playlist AST (RFC 8216 and the 2nd edition draft, including LL-HLS)
+ *
+ * Values the proxy reasons about (durations, sequences, byte ranges,
+ * discontinuities) are typed fields. Tags whose payload is an attribute list
+ * (keys, maps, renditions, parts, date ranges, ...) keep that list as parsed,
+ * in order, so nothing is lost when they are serialized back. Tags the parser
+ * does not know are carried through untouched where they appeared.
+ */
+
+export interface Attribute {
+  name: string
+  value: string
+  // Written back as a quoted-string; enumerated and numeric values are not
+  quoted: boolean
+}
+
+// A tag the parser does not interpret: "#NAME" or "#NAME:value"
+export interface Tag {
+  name: string
+  value?: string
+}
+
+// A tag whose value is an attribute list, e.g. #EXT-X-KEY:METHOD=AES-128,URI="k"
+export interface AttributeTag {
+  name: string
+  attributes: Attribute[]
+}
+
+export interface ByteRange {
+  length: number
+  // Omitted when the range starts right after the previous segment's range
+  offset?: number
+}
+
+// ── Media playlists ────────────────────────────────────────────────────────
+
+// Everything that can precede a segment URI. A pending segment (LL-HLS,
+// parts published before the segment itself) has only these.
+export interface SegmentTags {
+  discontinuity: boolean
+  gap: boolean
+  programDateTime?: string
+  // EXT-X-KEY tags written before this segment; they also apply to later segments
+  keys: AttributeTag[]
+  map?: AttributeTag
+  dateRanges: AttributeTag[]
+  parts: AttributeTag[]
+  tags: Tag[]
+}
+
+export interface MediaSegment extends SegmentTags {
+  uri: string
+  duration: number
+  title?: string
+  byteRange?: ByteRange
+}
+
+export interface MediaPlaylist {
+  type: "media"
+  version?: number
+  independentSegments: boolean
+  targetDuration: number
+  mediaSequence: number
+  discontinuitySequence: number
+  playlistType?: string
+  iFramesOnly: boolean
+  endList: boolean
+  start?: AttributeTag
+  defines: AttributeTag[]
+  serverControl?: AttributeTag
+  partInf?: AttributeTag
+  // Present in delta updates (_HLS_skip): earlier segments were left out
+  skip?: AttributeTag
+  segments: MediaSegment[]
+  // Tags after the last complete segment, e.g. the parts of the segment in progress
+  pending?: SegmentTags
+  preloadHints: AttributeTag[]
+  renditionReports: AttributeTag[]
+  // Unknown playlist-level tags (before the first segment)
+  tags: Tag[]
+}
+
+// ── Master playlists ───────────────────────────────────────────────────────
+
+export interface Variant {
+  attributes: Attribute[]
+  uri: string
+  // Unknown tags between #EXT-X-STREAM-INF and the URI
+  tags: Tag[]
+}
+
+export interface MasterPlaylist {
+  type: "master"
+  version?: number
+  independentSegments: boolean
+  start?: AttributeTag
+  defines: AttributeTag[]
+  sessionData: AttributeTag[]
+  sessionKeys: AttributeTag[]
+  contentSteering?: AttributeTag
+  // EXT-X-MEDIA
+  renditions: AttributeTag[]
+  variants: Variant[]
+  // EXT-X-I-FRAME-STREAM-INF
+  iFrameVariants: AttributeTag[]
+  tags: Tag[]
+}
+
+export type Playlist = MasterPlaylist | MediaPlaylist
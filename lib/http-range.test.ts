@@ -0,0 +1,109 @@
+import { describe, expect, it } from "vitest"
+import { parseRange, readUpTo, sliceStream } from "@/lib/http-range"
+
+function streamOf(...chunks: string[]): ReadableStream<Uint8Array> {
+  const encoder = new TextEncoder()
+  return new ReadableStream({
+    start(controller) {
+      for (const chunk of chunks) controller.enqueue(encoder.encode(chunk))
+      controller.close()
+    },
+  })
+}
+
+async function text(body: ReadableStream<Uint8Array> | Uint8Array): Promise<string> {
+  return await new Response(body).text()
+}
+
+describe("parseRange", () => {
+  it.each([
+    ["bytes=0-99", 1000, { start: 0, end: 99 }],
+    ["bytes=100-", 1000, { start: 100, end: 999 }],
+    ["bytes=900-2000", 1000, { start: 900, end: 999 }],
+    ["bytes=-200", 1000, { start: 800, end: 999 }],
+    ["bytes=-2000", 1000, { start: 0, end: 999 }],
+    [" bytes=5-9 ", 1000, { start: 5, end: 9 }],
+    ["bytes=10-", null, { start: 10, end: Infinity }],
+    ["bytes=10-19", null, { start: 10, end: 19 }],
+  ])("parses %s against %s bytes", (header, size, expected) => {
+    expect(parseRange(header, size)).toEqual(expected)
+  })
+
+  it.each([
+    [null, 1000],
+    ["", 1000],
+    ["items=0-9", 1000],
+    ["bytes=0-9,20-29", 1000],
+    ["bytes=-", 1000],
+    ["bytes=9-0", 1000],
+    ["bytes=-200", null],
+  ])("ignores %s against %s bytes", (header, size) => {
+    expect(parseRange(header, size)).toBeNull()
+  })
+
+  it.each([
+    ["bytes=1000-", 1000],
+    ["bytes=-0", 1000],
+    ["bytes=-10", 0],
+  ])("rejects %s against %s bytes as unsatisfiable", (header, size) => {
+    expect(parseRange(header, size)).toBe("unsatisfiable")
+  })
+})
+
+describe("sliceStream", () => {
+  it.each([
+    [{ start: 0, end: 3 }, "abcd"],
+    [{ start: 2, end: 6 }, "cdefg"],
+    [{ start: 4, end: 4 }, "e"],
+    [{ start: 5, end: Infinity }, "fghij"],
+    [{ start: 8, end: 100 }, "ij"],
+  ])("cuts %o across chunk boundaries", async (range, expected) => {
+    expect(await text(sliceStream(streamOf("abc", "def", "ghij"), range))).toBe(expected)
+  })
+
+  it("cancels the source once the range is delivered", async () => {
+    let cancelled = false
+    let pulls = 0
+    const source = new ReadableStream<Uint8Array>({
+      pull(controller) {
+        controller.enqueue(new Uint8Array(10).fill(pulls++))
+      },
+      cancel() {
+        cancelled = true
+      },
+    })
+    const out = await new Response(sliceStream(source, { start: 5, end: 14 })).arrayBuffer()
+    expect(new Uint8Array(out)).toEqual(new Uint8Array([0, 0, 0, 0, 0, 1, 1, 1, 1, 1]))
+    expect(cancelled).toBe(true)
+  })
+})
+
+describe("readUpTo", () => {
+  it("buffers a body within the limit", async () => {
+    const body = await readUpTo(streamOf("abc", "def"), 6)
+    expect(body).toBeInstanceOf(Uint8Array)
+    expect(await text(body)).toBe("abcdef")
+  })
+
+  it("replays a longer body as a stream", async () => {
+    const body = await readUpTo(streamOf("abc", "def", "ghi"), 5)
+    expect(body).toBeInstanceOf(ReadableStream)
+    expect(await text(body)).toBe("abcdefghi")
+  })
+
+  it("passes cancellation of the replay to the source", async () => {
+    let cancelled = false
+    const source = new ReadableStream<Uint8Array>({
+      pull(controller) {
+        controller.enqueue(new Uint8Array(4))
+      },
+      cancel() {
+        cancelled = true
+      },
+    })
+    const body = await readUpTo(source, 10)
+    expect(body).toBeInstanceOf(ReadableStream)
+    await (body as ReadableStream<Uint8Array>).cancel()
+    expect(cancelled).toBe(true)
+  })
+})
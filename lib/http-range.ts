@@ -0,0 +1,104 @@
+// HTTP byte-range helpers (RFC 9110 §14) for the resource proxy
+
+export interface ByteRange {
+  start: number
+  // Inclusive
+  end: number
+}
+
+/**
+ * Parse a Range header against a representation of `size` bytes (null when
+ * unknown). Returns null when the header should be ignored (missing, not
+ * bytes, multiple ranges), "unsatisfiable" when no byte can be served.
+ * Suffix ranges ("bytes=-500") need a known size.
+ */
+export function parseRange(header: string | null, size: number | null): ByteRange | "unsatisfiable" | null {
+  if (!header) return null
+  const match = /^bytes=(\d*)-(\d*)$/.exec(header.trim())
+  if (!match) return null
+
+  const [, rawStart, rawEnd] = match
+  if (rawStart === "" && rawEnd === "") return null
+
+  if (rawStart === "") {
+    if (size === null) return null
+    const suffix = Number(rawEnd)
+    if (suffix === 0 || size === 0) return "unsatisfiable"
+    return { start: Math.max(0, size - suffix), end: size - 1 }
+  }
+
+  const start = Number(rawStart)
+  let end = rawEnd === "" ? Infinity : Number(rawEnd)
+  if (end < start) return null
+  if (size !== null) {
+    if (start >= size) return "unsatisfiable"
+    end = Math.min(end, size - 1)
+  }
+  return { start, end }
+}
+
+export function contentRange(range: ByteRange, size: number | null): string {
+  return `bytes ${range.start}-${range.end}/${size ?? "*"}`
+}
+
+// Skip bytes before range.start and stop after range.end, cancelling the
+// source once the range has been delivered
+export function sliceStream(body: ReadableStream<Uint8Array>, range: ByteRange): ReadableStream<Uint8Array> {
+  let offset = 0
+  return body.pipeThrough(
+    new TransformStream<Uint8Array, Uint8Array>({
+      transform(chunk, controller) {
+        const chunkStart = offset
+        const chunkEnd = offset + chunk.byteLength
+        offset = chunkEnd
+
+        if (chunkEnd <= range.start) return
+        const from = Math.max(0, range.start - chunkStart)
+        const to = Math.min(chunk.byteLength, range.end + 1 - chunkStart)
+        if (to > from) controller.enqueue(chunk.subarray(from, to))
+        if (chunkEnd > range.end) controller.terminate()
+      },
+    }),
+  )
+}
+
+// Reads `body` into memory as long as it stays within `limit` bytes. A longer
+// body comes back as a stream replaying what was read, followed by the rest.
+export async function readUpTo(
+  body: ReadableStream<Uint8Array>,
+  limit: number,
+): Promise<Uint8Array | ReadableStream<Uint8Array>> {
+  const reader = body.getReader()
+  const chunks: Uint8Array[] = []
+  let bytes = 0
+  for (;;) {
+    const { done, value } = await reader.read()
+    if (done) break
+    chunks.push(value)
+    bytes += value.byteLength
+    if (bytes > limit) return replay(chunks, reader)
+  }
+
+  const out = new Uint8Array(bytes)
+  let offset = 0
+  for (const chunk of chunks) {
+    out.set(chunk, offset)
+    offset += chunk.byteLength
+  }
+  return out
+}
+
+function replay(chunks: Uint8Array[], reader: ReadableStreamDefaultReader<Uint8Array>): ReadableStream<Uint8Array> {
+  return new ReadableStream<Uint8Array>({
+    async pull(controller) {
+      const chunk = chunks.shift()
+      if (chunk) return controller.enqueue(chunk)
+      const { done, value } = await reader.read()
+      if (done) controller.close()
+      else controller.enqueue(value)
+    },
+    cancel(reason) {
+      return reader.cancel(reason)
+    },
+  })
+}
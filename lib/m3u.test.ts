@@ -0,0 +1,75 @@
+import { describe, expect, it } from "vitest"
+import { guessChannelType, M3uParseError, parseM3u } from "@/lib/m3u"
+
+const LIST = `\uFEFF#EXTM3U x-tvg-url="https://epg.example.com/guide.xml"
+#EXTINF:-1 tvg-id="la1.es" tvg-name="La 1" tvg-logo="https://logos.example.com/la1.png" group-title="Noticias, España",La 1 HD
+#EXTVLCOPT:http-referrer=https://www.example.com/
+#EXTVLCOPT:http-user-agent=Mozilla/5.0 (X11)
+#EXTVLCOPT:network-caching=1000
+https://cdn.example.com/la1/index.m3u8\r
+#EXTINF:-1 tvg-name='Radio 3' TVG-ID=r3,
+#EXTGRP:Radio
+http://radio.example.com/r3.mp3
+
+#EXTINF:-1,Multicast
+udp://@239.0.0.1:1234
+#EXTINF:-1 group-title="",
+https://cdn.example.com/live/Canal%20Sur.mpd
+`
+
+describe("parseM3u", () => {
+  it("reads the entries of an extended M3U list", () => {
+    const { entries, unsupported } = parseM3u(LIST)
+    expect(unsupported).toBe(1)
+    expect(entries).toEqual([
+      {
+        name: "La 1 HD",
+        url: "https://cdn.example.com/la1/index.m3u8",
+        tvgId: "la1.es",
+        tvgName: "La 1",
+        logoUrl: "https://logos.example.com/la1.png",
+        group: "Noticias, España",
+        headers: { Referer: "https://www.example.com/", "User-Agent": "Mozilla/5.0 (X11)" },
+      },
+      // Named after tvg-name when the title is empty
+      { name: "Radio 3", url: "http://radio.example.com/r3.mp3", tvgId: "r3", tvgName: "Radio 3", group: "Radio", headers: {} },
+      // Named after the URL when nothing else is given
+      { name: "Canal Sur.mpd", url: "https://cdn.example.com/live/Canal%20Sur.mpd", headers: {} },
+    ])
+  })
+
+  it("does not carry attributes over to the next entry", () => {
+    const { entries } = parseM3u(`#EXTM3U
+#EXTINF:-1 tvg-id="a" group-title="G",A
+#EXTVLCOPT:http-referrer=https://a.example.com/
+https://a.example.com/a.m3u8
+https://b.example.com/b.m3u8
+`)
+    expect(entries[1]).toEqual({ name: "b.m3u8", url: "https://b.example.com/b.m3u8", headers: {} })
+  })
+
+  it("resolves relative URLs against the list's own URL", () => {
+    const { entries } = parseM3u("#EXTM3U\n#EXTINF:-1,A\n../streams/a.m3u8\n", "https://lists.example.com/es/list.m3u")
+    expect(entries[0].url).toBe("https://lists.example.com/streams/a.m3u8")
+  })
+
+  it("counts relative URLs without a base as unsupported", () => {
+    expect(parseM3u("#EXTM3U\n#EXTINF:-1,A\nstreams/a.m3u8\n")).toEqual({ entries: [], unsupported: 1 })
+  })
+
+  it("rejects HLS stream playlists", () => {
+    expect(() => parseM3u("#EXTM3U\n#EXT-X-TARGETDURATION:6\n#EXTINF:6,\nseg.ts\n")).toThrow(M3uParseError)
+  })
+})
+
+describe("guessChannelType", () => {
+  it.each([
+    ["https://cdn.example.com/live/index.m3u8", "hls"],
+    ["https://cdn.example.com/live/manifest.MPD?token=1", "dash"],
+    ["http://iptv.example.com:8080/live/user/pass/1234.ts", "mpegts"],
+    ["http://radio.example.com/stream.aac", "progressive"],
+    ["http://iptv.example.com:8080/live/user/pass/1234", "hls"],
+  ])("guesses %s is %s", (url, type) => {
+    expect(guessChannelType(url)).toBe(type)
+  })
+})
@@ -0,0 +1,162 @@
+import type { ChannelType } from "@/lib/channels"
+
+/**
+ * IPTV channel lists ("extended M3U")
+ *
+ *   #EXTM3U
+ *   #EXTINF:-1 tvg-id="la1.es" tvg-name="La 1" tvg-logo="https://..." group-title="Noticias",La 1 HD
+ *   #EXTVLCOPT:http-referrer=https://example.com/
+ *   #EXTVLCOPT:http-user-agent=Mozilla/5.0
+ *   https://example.com/la1/index.m3u8
+ *
+ * Each URL line closes one entry with whatever #EXTINF / #EXTVLCOPT / #EXTGRP
+ * lines came before it. Pure string handling, safe to use in the browser.
+ */
+
+export interface M3uEntry {
+  // #EXTINF title, else tvg-name, else the last path segment of the URL
+  name: string
+  url: string
+  tvgId?: string
+  tvgName?: string
+  logoUrl?: string
+  group?: string
+  // From #EXTVLCOPT http-referrer / http-user-agent
+  headers: Record<string, string>
+}
+
+export interface ParsedM3u {
+  entries: M3uEntry[]
+  // Entries whose URL is not http(s) (udp://, rtmp://, ...) and were left out
+  unsupported: number
+}
+
+export class M3uParseError extends Error {
+  constructor(message: string) {
+    super(message)
+    this.name = "M3uParseError"
+  }
+}
+
+// VLC options that map to request headers
+const VLC_HEADER_OPTIONS: Record<string, string> = {
+  "http-referrer": "Referer",
+  "http-user-agent": "User-Agent",
+}
+
+// Tags that only appear in HLS stream playlists, never in channel lists
+const HLS_TAGS = ["#EXT-X-TARGETDURATION", "#EXT-X-STREAM-INF", "#EXT-X-MEDIA-SEQUENCE"]
+
+interface PendingEntry {
+  title?: string
+  attributes: Record<string, string>
+  group?: string
+  headers: Record<string, string>
+}
+
+// Relative URLs resolve against `baseUrl` (where a remote list was fetched from)
+export function parseM3u(text: string, baseUrl?: string): ParsedM3u {
+  const lines = text.replace(/^\uFEFF/, "").split(/\r?\n/)
+  if (lines.some((line) => HLS_TAGS.some((tag) => line.startsWith(tag)))) {
+    throw new M3uParseError("This is an HLS stream playlist, not a channel list: add its URL as a channel instead")
+  }
+
+  const entries: M3uEntry[] = []
+  let unsupported = 0
+  let pending: PendingEntry = { attributes: {}, headers: {} }
+
+  for (const raw of lines) {
+    const line = raw.trim()
+    if (!line) continue
+
+    if (line.startsWith("#EXTINF:")) {
+      const { attributes, title } = parseExtinf(line.slice("#EXTINF:".length))
+      pending = { ...pending, attributes, title }
+    } else if (line.startsWith("#EXTVLCOPT:")) {
+      const option = line.slice("#EXTVLCOPT:".length)
+      const eq = option.indexOf("=")
+      const header = eq === -1 ? undefined : VLC_HEADER_OPTIONS[option.slice(0, eq).trim().toLowerCase()]
+      const value = eq === -1 ? "" : option.slice(eq + 1).trim()
+      if (header && value) pending.headers = { ...pending.headers, [header]: value }
+    } else if (line.startsWith("#EXTGRP:")) {
+      pending.group = line.slice("#EXTGRP:".length).trim() || undefined
+    } else if (!line.startsWith("#")) {
+      const url = resolve(line, baseUrl)
+      if (url) entries.push(toEntry(pending, url))
+      else unsupported++
+      pending = { attributes: {}, headers: {} }
+    }
+  }
+
+  return { entries, unsupported }
+}
+
+// Best guess from the URL; lists do not say what a stream is
+export function guessChannelType(url: string): ChannelType {
+  const path = URL.canParse(url) ? new URL(url).pathname.toLowerCase() : url.toLowerCase()
+  if (path.endsWith(".mpd")) return "dash"
+  if (path.endsWith(".ts")) return "mpegts"
+  if (/\.(mp3|aac|ogg|opus)$/.test(path)) return "progressive"
+  return "hls"
+}
+
+function toEntry(pending: PendingEntry, url: string): M3uEntry {
+  const { attributes } = pending
+  const entry: M3uEntry = {
+    name: pending.title || attributes["tvg-name"] || lastPathSegment(url),
+    url,
+    headers: pending.headers,
+  }
+  if (attributes["tvg-id"]) entry.tvgId = attributes["tvg-id"]
+  if (attributes["tvg-name"]) entry.tvgName = attributes["tvg-name"]
+  if (attributes["tvg-logo"]) entry.logoUrl = attributes["tvg-logo"]
+  const group = attributes["group-title"] || pending.group
+  if (group) entry.group = group
+  return entry
+}
+
+// `-1 key="value" key2=value2,Title`: the title starts after the first comma
+// outside quotes (attribute values may contain commas)
+function parseExtinf(rest: string): { attributes: Record<string, string>; title?: string } {
+  let quote: string | null = null
+  let comma = -1
+  for (let i = 0; i < rest.length; i++) {
+    const ch = rest[i]
+    if (quote) {
+      if (ch === quote) quote = null
+    } else if (ch === '"' || ch === "'") {
+      quote = ch
+    } else if (ch === ",") {
+      comma = i
+      break
+    }
+  }
+
+  const head = comma === -1 ? rest : rest.slice(0, comma)
+  const attributes: Record<string, string> = {}
+  for (const match of head.matchAll(/([\w-]+)=(?:"([^"]*)"|'([^']*)'|([^\s"']+))/g)) {
+    const value = (match[2] ?? match[3] ?? match[4] ?? "").trim()
+    if (value) attributes[match[1].toLowerCase()] = value
+  }
+  const title = comma === -1 ? undefined : rest.slice(comma + 1).trim() || undefined
+  return { attributes, title }
+}
+
+function resolve(url: string, baseUrl?: string): string | null {
+  try {
+    const resolved = new URL(url, baseUrl)
+    return resolved.protocol === "http:" || resolved.protocol === "https:" ? resolved.toString() : null
+  } catch {
+    return null
+  }
+}
+
+function lastPathSegment(url: string): string {
+  const { pathname, hostname } = new URL(url)
+  const segment = pathname.split("/").filter(Boolean).pop() ?? ""
+  try {
+    return decodeURIComponent(segment) || hostname
+  } catch {
+    return segment
+  }
+}
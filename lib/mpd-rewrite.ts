@@ -0,0 +1,228 @@
+import { makeProxyPathUrl, resolveUrl, type HeaderRef } from "@/lib/playlist-rewrite"
+
+/**
+ * MPEG-DASH manifest (MPD) rewriting
+ *
+ * DASH players build segment URLs themselves: BaseURL elements chain from the
+ * MPD down to the Representation, and SegmentTemplate patterns ($Number$,
+ * $Time$, ...) are filled in on the client. So instead of rewriting every
+ * reference to /api/proxy/s?url= like HLS, the manifest's base is moved under
+ * the path-style proxy route (makeProxyPathUrl), which keeps the upstream path
+ * intact: relative references resolve to proxied URLs on their own, and only
+ * absolute ones have to be rewritten.
+ *
+ * The manifest is edited as text with a small tag scanner rather than parsed
+ * and re-serialized, so namespaces, comments and vendor extensions survive.
+ */
+
+// Attributes holding a URL or URL template, by element (local name)
+const URL_ATTRIBUTES: Record<string, string[]> = {
+  SegmentTemplate: ["media", "initialization", "index", "bitstreamSwitching"],
+  SegmentURL: ["media", "index"],
+  Initialization: ["sourceURL"],
+  RepresentationIndex: ["sourceURL"],
+  BitstreamSwitching: ["sourceURL"],
+}
+
+// Elements that would send the player back to the origin on refresh
+const DROPPED_ELEMENTS = new Set(["Location", "PatchLocation"])
+
+export function isMpd(text: string): boolean {
+  return /<(?:[\w-]+:)?MPD[\s>]/.test(text)
+}
+
+// `manifestUrl` is where the MPD was actually served from (after redirects)
+export function rewriteMpd(xml: string, manifestUrl: string, proxyOrigin: string, ref: HeaderRef): string {
+  // Where path-absolute references ("/seg/1.m4s") point: the first MPD-level
+  // BaseURL, or the manifest itself
+  let base = manifestUrl
+  // Proxied URLs are only valid under their own directory; widen that by as
+  // many levels as the manifest's relative references climb
+  const climb = relativeClimb(xml)
+  const proxied = (url: string) => makeProxyPathUrl(resolveUrl(url, base), proxyOrigin, ref, climb)
+  // Relative references already resolve under the proxied base
+  const proxiedIfAbsolute = (url: string) => (isAbsoluteUrl(url) ? proxied(url) : url)
+
+  const stack: string[] = []
+  let out = ""
+  let i = 0
+  // Position in `out` right after the <MPD ...> start tag, and whether a
+  // BaseURL was found directly below it
+  let mpdBodyAt = -1
+  let hasRootBaseUrl = false
+
+  while (i < xml.length) {
+    const lt = xml.indexOf("<", i)
+    if (lt === -1) {
+      out += xml.slice(i)
+      break
+    }
+    out += xml.slice(i, lt)
+
+    // Comments, CDATA, declarations and processing instructions pass through
+    const special = specialEnd(xml, lt)
+    if (special !== -1) {
+      out += xml.slice(lt, special)
+      i = special
+      continue
+    }
+
+    const gt = tagEnd(xml, lt)
+    const tag = xml.slice(lt, gt)
+    i = gt
+
+    if (tag.startsWith("</")) {
+      stack.pop()
+      out += tag
+      continue
+    }
+
+    const name = localName(tag)
+    const selfClosing = tag.endsWith("/>")
+
+    if (DROPPED_ELEMENTS.has(name)) {
+      if (!selfClosing) i = closingTagEnd(xml, gt)
+      continue
+    }
+
+    if (name === "BaseURL" && !selfClosing) {
+      const textEnd = xml.indexOf("</", gt)
+      if (textEnd === -1) {
+        out += xml.slice(lt)
+        break
+      }
+      const url = decodeXml(xml.slice(gt, textEnd).trim())
+      // MPD-level BaseURLs anchor everything below them
+      if (stack.length === 1) {
+        const absolute = resolveUrl(url, manifestUrl)
+        if (!hasRootBaseUrl) base = absolute
+        hasRootBaseUrl = true
+        out += tag + escapeXml(makeProxyPathUrl(absolute, proxyOrigin, ref, climb))
+      } else {
+        out += tag + escapeXml(proxiedIfAbsolute(url))
+      }
+      i = textEnd
+      stack.push(name)
+      continue
+    }
+
+    const attributes = URL_ATTRIBUTES[name]
+    out += attributes ? rewriteAttributes(tag, attributes, proxiedIfAbsolute) : tag
+    if (name === "MPD") mpdBodyAt = out.length
+    if (!selfClosing) stack.push(name)
+  }
+
+  // Without a BaseURL of its own, the MPD's location is the base: make that the proxy
+  if (mpdBodyAt !== -1 && !hasRootBaseUrl) {
+    const base = `<BaseURL>${escapeXml(proxied(manifestUrl))}</BaseURL>`
+    out = out.slice(0, mpdBodyAt) + base + out.slice(mpdBodyAt)
+  }
+  return out
+}
+
+// How many directories the player may climb from a proxied base: nested
+// BaseURLs chain, so their "../" runs add up, and the deepest URL attribute
+// climbs on top of them
+function relativeClimb(xml: string): number {
+  let baseUrls = 0
+  for (const match of xml.matchAll(/<(?:[\w.-]+:)?BaseURL\b[^>]*>\s*((?:\.\.\/)+)/g)) {
+    baseUrls += match[1].length / 3
+  }
+  let attributes = 0
+  for (const match of xml.matchAll(/=\s*["']((?:\.\.\/)+)/g)) {
+    attributes = Math.max(attributes, match[1].length / 3)
+  }
+  return baseUrls + attributes
+}
+
+// ── Tag scanning ───────────────────────────────────────────────────────────
+
+const SPECIAL_TAGS: [string, string][] = [
+  ["<!--", "-->"],
+  ["<![CDATA[", "]]>"],
+  ["<?", "?>"],
+  ["<!", ">"],
+]
+
+// End of a comment/CDATA/declaration starting at `lt`, -1 for ordinary tags
+function specialEnd(xml: string, lt: number): number {
+  for (const [open, close] of SPECIAL_TAGS) {
+    if (!xml.startsWith(open, lt)) continue
+    const end = xml.indexOf(close, lt + open.length)
+    return end === -1 ? xml.length : end + close.length
+  }
+  return -1
+}
+
+// Index just past the ">" closing the tag at `lt`; ">" inside quotes does not count
+function tagEnd(xml: string, lt: number): number {
+  let quote: string | null = null
+  for (let i = lt + 1; i < xml.length; i++) {
+    const ch = xml[i]
+    if (quote) {
+      if (ch === quote) quote = null
+    } else if (ch === '"' || ch === "'") {
+      quote = ch
+    } else if (ch === ">") {
+      return i + 1
+    }
+  }
+  return xml.length
+}
+
+// Index just past the end tag matching the element whose start tag ends at `from`
+function closingTagEnd(xml: string, from: number): number {
+  let depth = 1
+  let i = from
+  while (depth > 0) {
+    const lt = xml.indexOf("<", i)
+    if (lt === -1) return xml.length
+    const special = specialEnd(xml, lt)
+    if (special !== -1) {
+      i = special
+      continue
+    }
+    const gt = tagEnd(xml, lt)
+    const tag = xml.slice(lt, gt)
+    if (tag.startsWith("</")) depth--
+    else if (!tag.endsWith("/>")) depth++
+    i = gt
+  }
+  return i
+}
+
+// "<dash:SegmentTemplate ..." → "SegmentTemplate"
+function localName(tag: string): string {
+  const name = /^<([^\s/>]+)/.exec(tag)?.[1] ?? ""
+  return name.slice(name.indexOf(":") + 1)
+}
+
+function rewriteAttributes(tag: string, names: string[], map: (url: string) => string): string {
+  return tag.replace(/(\s)([\w:.-]+)(\s*=\s*)("[^"]*"|'[^']*')/g, (match, space, name, eq, quoted) => {
+    if (!names.includes(name)) return match
+    const value = decodeXml(quoted.slice(1, -1))
+    return `${space}${name}${eq}"${escapeXml(map(value))}"`
+  })
+}
+
+// http://, https://, protocol-relative and path-absolute references: none of
+// them would resolve under the proxied base
+function isAbsoluteUrl(url: string): boolean {
+  return /^[a-z][a-z0-9+.-]*:\/\//i.test(url) || url.startsWith("/")
+}
+
+// ── Entities ───────────────────────────────────────────────────────────────
+
+const ENTITIES: Record<string, string> = { amp: "&", lt: "<", gt: ">", quot: '"', apos: "'" }
+
+function decodeXml(text: string): string {
+  return text.replace(/&(#x[0-9a-f]+|#\d+|\w+);/gi, (match, entity: string) => {
+    if (entity[0] !== "#") return ENTITIES[entity] ?? match
+    const code = entity[1] === "x" || entity[1] === "X" ? parseInt(entity.slice(2), 16) : Number(entity.slice(1))
+    return code <= 0x10ffff ? String.fromCodePoint(code) : match
+  })
+}
+
+function escapeXml(text: string): string {
+  return text.replace(/&/g, "&amp;").replace(/</g, "&lt;").replace(/>/g, "&gt;").replace(/"/g, "&quot;")
+}
@@ -0,0 +1,41 @@
+import { describe, expect, it } from "vitest"
+import { redirectHeaders } from "@/lib/network-policy"
+
+const HEADERS = {
+  "User-Agent": "test",
+  Origin: "https://origin.example.com",
+  Referer: "https://origin.example.com/",
+  Authorization: "Bearer secret",
+  cookie: "session=1",
+}
+
+describe("redirectHeaders", () => {
+  it("keeps every header on a same-origin redirect", () => {
+    const headers = redirectHeaders(HEADERS, "https://origin.example.com/a.m3u8", "https://origin.example.com/b/a.m3u8")
+    expect(headers).toEqual(HEADERS)
+  })
+
+  it("drops credentials and re-derives Origin and Referer on a cross-origin redirect", () => {
+    const headers = redirectHeaders(HEADERS, "https://origin.example.com/a.m3u8", "https://cdn.example.net/a.m3u8")
+    expect(headers).toEqual({
+      "User-Agent": "test",
+      Origin: "https://cdn.example.net",
+      Referer: "https://cdn.example.net/",
+    })
+  })
+
+  it("treats a scheme or port change as another origin", () => {
+    const headers = redirectHeaders(HEADERS, "https://origin.example.com/a", "http://origin.example.com/a")
+    expect(headers.Authorization).toBeUndefined()
+    expect(headers.Origin).toBe("http://origin.example.com")
+  })
+
+  it("keeps a Referer set by hand", () => {
+    const headers = redirectHeaders(
+      { Referer: "https://site.example.org/player" },
+      "https://origin.example.com/a",
+      "https://cdn.example.net/a",
+    )
+    expect(headers).toEqual({ Referer: "https://site.example.org/player" })
+  })
+})
@@ -0,0 +1,158 @@
+import { BlockList, isIP, type LookupFunction } from "net"
+import { lookup } from "dns"
+import { Agent, type Dispatcher } from "undici"
+import { config } from "@/lib/config"
+
+// Refuses upstream targets that resolve into a denied network (loopback,
+// private ranges, cloud metadata endpoints, ...). See PROXY_DENY_NETWORKS.
+//
+// Host names are checked when the connection is made, on the very addresses
+// it connects to: checking a separate lookup beforehand would let a
+// DNS-rebinding host answer with an allowed address first and a denied one
+// for the connection.
+
+export class BlockedTargetError extends Error {
+  constructor(host: string) {
+    super(`Target host ${host} is not allowed`)
+    this.name = "BlockedTargetError"
+  }
+}
+
+let denyList: BlockList | null = null
+
+function getDenyList(): BlockList {
+  if (denyList) return denyList
+  const list = new BlockList()
+  for (const cidr of config.proxyDenyNetworks) {
+    const [address, prefix] = cidr.split("/")
+    const family = isIP(address)
+    if (family === 0) {
+      console.warn(`[proxy] Ignoring invalid deny network "${cidr}"`)
+      continue
+    }
+    const type = family === 6 ? "ipv6" : "ipv4"
+    if (prefix === undefined) list.addAddress(address, type)
+    else list.addSubnet(address, Number.parseInt(prefix, 10), type)
+  }
+  denyList = list
+  return list
+}
+
+function isDenied(address: string): boolean {
+  const family = isIP(address)
+  if (family === 0) return true
+  return getDenyList().check(address, family === 6 ? "ipv6" : "ipv4")
+}
+
+// Throws BlockedTargetError for URLs whose host is a denied IP literal. Those
+// are connected to without any lookup, so the dispatcher never sees them.
+export function assertAllowedTarget(url: string): void {
+  if (config.proxyDenyNetworks.length === 0) return
+
+  const host = new URL(url).hostname.replace(/^\[|\]$/g, "")
+  if (isIP(host) !== 0 && isDenied(host)) throw new BlockedTargetError(host)
+}
+
+// DNS lookup for outgoing connections that fails with BlockedTargetError when
+// any resolved address is denied
+const checkedLookup: LookupFunction = (hostname, options, callback) => {
+  lookup(hostname, { ...options, all: true }, (err, addresses) => {
+    if (err) return callback(err, "", 0)
+    if (addresses.length === 0 || addresses.some((a) => isDenied(a.address))) {
+      return callback(new BlockedTargetError(hostname), "", 0)
+    }
+    if (options.all) return (callback as unknown as (e: null, all: typeof addresses) => void)(null, addresses)
+    callback(null, addresses[0].address, addresses[0].family)
+  })
+}
+
+let dispatcher: Dispatcher | null = null
+
+// Connection pool whose lookups go through the deny list; null when it is empty
+function getDispatcher(): Dispatcher | null {
+  if (config.proxyDenyNetworks.length === 0) return null
+  dispatcher ??= new Agent({ connect: { lookup: checkedLookup } })
+  return dispatcher
+}
+
+// Follows redirects by hand so every hop goes through the deny-list check.
+// The timeout only covers waiting for response headers: bodies are streamed
+// for as long as the client keeps reading, and end when `signal` aborts.
+const MAX_REDIRECTS = 5
+export const HEADERS_TIMEOUT_MS = 15000
+
+export async function fetchChecked(
+  url: string,
+  headers: Record<string, string>,
+  signal: AbortSignal,
+  headersTimeoutMs = HEADERS_TIMEOUT_MS,
+): Promise<Response> {
+  let current = url
+  for (let hop = 0; hop <= MAX_REDIRECTS; hop++) {
+    assertAllowedTarget(current)
+    const res = await fetchWithHeadersTimeout(current, headers, signal, headersTimeoutMs)
+
+    const location = res.headers.get("location")
+    if (res.status < 300 || res.status >= 400 || !location) return res
+
+    await res.body?.cancel()
+    const next = new URL(location, current).toString()
+    if (!next.startsWith("http://") && !next.startsWith("https://")) {
+      throw new Error("Redirect to unsupported scheme")
+    }
+    headers = redirectHeaders(headers, current, next)
+    current = next
+  }
+  throw new Error("Too many redirects")
+}
+
+// Credentials never follow a redirect to another origin, as with fetch's own
+// redirect handling. Origin and Referer that were derived from the previous
+// hop are derived again from the new one; values set by hand are kept.
+const CREDENTIAL_HEADERS = new Set(["authorization", "cookie", "proxy-authorization"])
+
+export function redirectHeaders(headers: Record<string, string>, from: string, to: string): Record<string, string> {
+  const previous = new URL(from).origin
+  const origin = new URL(to).origin
+  if (origin === previous) return headers
+
+  const next: Record<string, string> = {}
+  for (const [name, value] of Object.entries(headers)) {
+    const lower = name.toLowerCase()
+    if (CREDENTIAL_HEADERS.has(lower)) continue
+    if (lower === "origin" && value === previous) next[name] = origin
+    else if (lower === "referer" && value === `${previous}/`) next[name] = `${origin}/`
+    else next[name] = value
+  }
+  return next
+}
+
+async function fetchWithHeadersTimeout(
+  url: string,
+  headers: Record<string, string>,
+  signal: AbortSignal,
+  headersTimeoutMs: number,
+): Promise<Response> {
+  const timeout = new AbortController()
+  const timer = setTimeout(
+    () => timeout.abort(new DOMException("Upstream timeout", "TimeoutError")),
+    headersTimeoutMs,
+  )
+  const dispatcher = getDispatcher()
+  try {
+    return await fetch(url, {
+      headers,
+      cache: "no-store",
+      redirect: "manual",
+      signal: AbortSignal.any([signal, timeout.signal]),
+      // Node's fetch takes an undici dispatcher; not part of the DOM typings
+      ...(dispatcher ? ({ dispatcher } as RequestInit) : {}),
+    })
+  } catch (e) {
+    // fetch wraps connection errors: surface a denied target as such
+    if (e instanceof TypeError && e.cause instanceof BlockedTargetError) throw e.cause
+    throw e
+  } finally {
+    clearTimeout(timer)
+  }
+}
@@ -0,0 +1,87 @@
+import { config } from "@/lib/config"
+import type { Playlist } from "@/lib/hls"
+
+/**
+ * Short-lived cache of rewritten playlists
+ *
+ * A live media playlist only changes about once per target duration, so the
+ * rewritten result is kept for a fraction of #EXT-X-TARGETDURATION
+ * (PLAYLIST_CACHE_FRACTION) and concurrent reloads share one origin request.
+ * With N viewers the origin sees one playlist request per refresh window.
+ * Playlists without a target duration (masters) are coalesced but not kept.
+ */
+
+export interface PlaylistResult {
+  // Upstream status; only 2xx results without an error carry a body and may be cached
+  status: number
+  body: string
+  ttlMs: number
+  // Set when the upstream answered but the playlist is unusable
+  error?: string
+  // Live media playlist whose sequence stopped advancing (lib/stall-detector.ts)
+  stalled?: boolean
+}
+
+export function isPlaylistOk(result: PlaylistResult): boolean {
+  return result.status >= 200 && result.status < 300 && !result.error
+}
+
+export type PlaylistCacheStatus = "HIT" | "MISS" | "COALESCED"
+
+interface Entry {
+  result: PlaylistResult
+  expiresAt: number
+}
+
+const globalForPlaylists = globalThis as unknown as {
+  playlistCache?: { entries: Map<string, Entry>; inflight: Map<string, Promise<PlaylistResult>> }
+}
+
+function store() {
+  if (!globalForPlaylists.playlistCache) {
+    globalForPlaylists.playlistCache = { entries: new Map(), inflight: new Map() }
+  }
+  return globalForPlaylists.playlistCache
+}
+
+// How long a rewritten copy of `playlist` may be served, 0 when it must not be cached
+export function playlistTtlMs(playlist: Playlist): number {
+  if (playlist.type !== "media") return 0
+  return Math.round(playlist.targetDuration * 1000 * config.playlistCacheFraction)
+}
+
+export async function loadPlaylist(
+  key: string,
+  load: () => Promise<PlaylistResult>,
+): Promise<{ result: PlaylistResult; cache: PlaylistCacheStatus }> {
+  const { entries, inflight } = store()
+  const now = Date.now()
+
+  const entry = entries.get(key)
+  if (entry && entry.expiresAt > now) return { result: entry.result, cache: "HIT" }
+  if (entry) entries.delete(key)
+
+  const pending = inflight.get(key)
+  if (pending) return { result: await pending, cache: "COALESCED" }
+
+  const started = load()
+  inflight.set(key, started)
+  try {
+    const result = await started
+    if (isPlaylistOk(result) && result.ttlMs > 0) {
+      entries.set(key, { result, expiresAt: Date.now() + result.ttlMs })
+      sweep(entries)
+    }
+    return { result, cache: "MISS" }
+  } finally {
+    inflight.delete(key)
+  }
+}
+
+// Drop expired entries so URLs nobody requests anymore do not pile up
+function sweep(entries: Map<string, Entry>) {
+  const now = Date.now()
+  for (const [key, entry] of entries) {
+    if (entry.expiresAt <= now) entries.delete(key)
+  }
+}
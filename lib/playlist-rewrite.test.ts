@@ -0,0 +1,121 @@
+import { describe, expect, it } from "vitest"
+import { parsePlaylist } from "@/lib/hls"
+import { makeProxyPathUrl, makeProxyUrl, pathScope, resolveUrl, rewritePlaylist } from "@/lib/playlist-rewrite"
+import { verifyProxyUrl } from "@/lib/url-signing"
+
+const PLAYLIST_URL = "https://cdn.example.com/live/channel/index.m3u8?token=abc"
+const PROXY = "http://proxy.local"
+
+// The upstream URL a rewritten /api/proxy/s URL points at
+function target(proxyUrl: string): string {
+  const encoded = new URL(proxyUrl).searchParams.get("url") as string
+  return Buffer.from(encoded, "base64url").toString("utf-8")
+}
+
+describe("resolveUrl", () => {
+  it.each([
+    ["segment.ts", "https://cdn.example.com/live/channel/segment.ts"],
+    ["../other/segment.ts", "https://cdn.example.com/live/other/segment.ts"],
+    ["../../root.ts", "https://cdn.example.com/root.ts"],
+    ["/abs/segment.ts", "https://cdn.example.com/abs/segment.ts"],
+    ["?token=def", "https://cdn.example.com/live/channel/index.m3u8?token=def"],
+    ["//edge.example.net/seg.ts", "https://edge.example.net/seg.ts"],
+    ["http://other.example.org/a/b.ts?x=1", "http://other.example.org/a/b.ts?x=1"],
+  ])("resolves %s", (uri, expected) => {
+    expect(resolveUrl(uri, PLAYLIST_URL)).toBe(expected)
+  })
+
+  it("keeps the playlist's scheme for protocol-relative URIs", () => {
+    expect(resolveUrl("//edge.example.net/seg.ts", "http://cdn.example.com/index.m3u8")).toBe(
+      "http://edge.example.net/seg.ts",
+    )
+  })
+
+  it("returns unparseable references untouched", () => {
+    expect(resolveUrl("seg.ts", "not a url")).toBe("seg.ts")
+  })
+})
+
+describe("makeProxyUrl", () => {
+  it("encodes the resolved URL and signs it", () => {
+    const url = new URL(makeProxyUrl("../b/seg.ts", PLAYLIST_URL, PROXY, { channelId: "abc" }))
+    expect(url.origin + url.pathname).toBe(`${PROXY}/api/proxy/s`)
+    expect(target(url.toString())).toBe("https://cdn.example.com/live/b/seg.ts")
+    expect(url.searchParams.get("c")).toBe("abc")
+    expect(url.searchParams.get("sig")).toBeTruthy()
+    expect(Number(url.searchParams.get("e"))).toBeGreaterThan(Date.now() / 1000)
+  })
+})
+
+describe("makeProxyPathUrl", () => {
+  const MANIFEST = "https://cdn.example.com/live/channel/manifest.mpd?token=abc"
+  const encoded = Buffer.from("https://cdn.example.com").toString("base64url")
+
+  // CHANNEL, EXPIRY, SCOPE and SIG of a path-style URL
+  function parts(proxyUrl: string) {
+    const [, , , , channel, expires, scope, sig] = new URL(proxyUrl).pathname.split("/")
+    return { channel, expires: Number(expires), scope: Number(scope), sig }
+  }
+
+  it("keeps the upstream path and query", () => {
+    const url = makeProxyPathUrl(MANIFEST, PROXY, { channelId: "abc" })
+    expect(url.startsWith(`${PROXY}/api/proxy/d/abc/`)).toBe(true)
+    expect(url.endsWith(`/${encoded}/live/channel/manifest.mpd?token=abc`)).toBe(true)
+  })
+
+  it("signs the manifest's directory", () => {
+    const { channel, expires, scope, sig } = parts(makeProxyPathUrl(MANIFEST, PROXY, { channelId: "abc" }))
+    expect(scope).toBe(2)
+    expect(verifyProxyUrl(pathScope(encoded, ["live", "channel"]), channel, undefined, expires, sig)).toBe(true)
+    expect(verifyProxyUrl(pathScope(encoded, ["live"]), channel, undefined, expires, sig)).toBe(false)
+    expect(verifyProxyUrl(pathScope(encoded, ["live", "other"]), channel, undefined, expires, sig)).toBe(false)
+  })
+
+  it.each([
+    [1, 1],
+    [2, 0],
+    [5, 0],
+  ])("widens the scope by %i climbed levels", (climb, expected) => {
+    expect(parts(makeProxyPathUrl(MANIFEST, PROXY, {}, climb)).scope).toBe(expected)
+  })
+
+  it("returns unparseable URLs untouched", () => {
+    expect(makeProxyPathUrl("not a url", PROXY, {})).toBe("not a url")
+  })
+})
+
+describe("rewritePlaylist", () => {
+  // Relative URIs resolve against the URL the playlist was served from, which
+  // differs from the requested one after a redirect
+  it("resolves every kind of reference against the post-redirect URL", () => {
+    const playlist = parsePlaylist(
+      [
+        "#EXTM3U",
+        "#EXT-X-TARGETDURATION:6",
+        '#EXT-X-KEY:METHOD=AES-128,URI="../keys/k1"',
+        '#EXT-X-MAP:URI="?init=1"',
+        "#EXTINF:6,",
+        "seg1.ts",
+        "#EXTINF:6,",
+        "//edge.example.net/seg2.ts",
+        "#EXTINF:6,",
+        "https://other.example.org/seg3.ts",
+      ].join("\n"),
+    )
+    const rewritten = parsePlaylist(rewritePlaylist(playlist, PLAYLIST_URL, PROXY, { channelId: "abc" }))
+    if (rewritten.type !== "media") throw new Error("expected a media playlist")
+
+    expect(rewritten.segments.map((s) => target(s.uri))).toEqual([
+      "https://cdn.example.com/live/channel/seg1.ts",
+      "https://edge.example.net/seg2.ts",
+      "https://other.example.org/seg3.ts",
+    ])
+    const first = rewritten.segments[0]
+    expect(target(first.keys[0].attributes.find((a) => a.name === "URI")?.value as string)).toBe(
+      "https://cdn.example.com/live/keys/k1",
+    )
+    expect(target(first.map?.attributes.find((a) => a.name === "URI")?.value as string)).toBe(
+      "https://cdn.example.com/live/channel/index.m3u8?init=1",
+    )
+  })
+})
@@ -0,0 +1,160 @@
+import { getAttribute, mapUris, serializePlaylist, setAttribute, type AttributeTag, type Playlist } from "@/lib/hls"
+import { signProxyUrl } from "@/lib/url-signing"
+
+// ── Custom header reference ────────────────────────────────────────────────
+// Carried on every rewritten URL so sub-requests reuse the channel's headers
+export interface HeaderRef {
+  channelId?: string
+  // Raw ?h= value from legacy links, only set when the compatibility flag is on
+  legacyHeaders?: string
+}
+
+// ── Rendition language rules ───────────────────────────────────────────────
+// Per-channel preferences for #EXT-X-MEDIA audio and subtitle renditions.
+// Languages are BCP 47 tags in order of preference; "es" also matches "es-419".
+export interface RenditionRules {
+  audioLanguages?: string[]
+  subtitleLanguages?: string[]
+  // Drop renditions in a language that is not listed
+  stripOthers?: boolean
+}
+
+// ── Playlist rewriting ─────────────────────────────────────────────────────
+// Rewrites every URI (segment paths, sub-playlist paths, URI="..." in tags)
+// to go through /api/proxy/s?url=BASE64. `playlistUrl` is the URL the playlist
+// was actually served from (after redirects); relative URIs resolve against it.
+// Master playlists first go through the rendition pass when rules are given.
+export function rewritePlaylist(
+  playlist: Playlist,
+  playlistUrl: string,
+  proxyOrigin: string,
+  ref: HeaderRef,
+  renditions?: RenditionRules,
+): string {
+  const selected =
+    renditions && playlist.type === "master"
+      ? { ...playlist, renditions: selectRenditions(playlist.renditions, renditions) }
+      : playlist
+  const proxied = mapUris(selected, (uri) => (uri ? makeProxyUrl(uri, playlistUrl, proxyOrigin, ref) : uri))
+  return serializePlaylist(proxied)
+}
+
+// ── Rendition pass ─────────────────────────────────────────────────────────
+// Within every AUDIO and SUBTITLES group, the rendition in the most preferred
+// language becomes DEFAULT=YES,AUTOSELECT=YES and moves to the top of its
+// group, the others get DEFAULT=NO. With stripOthers, renditions in unlisted
+// languages are removed. Groups without any preferred language are untouched,
+// so a group never ends up empty.
+function selectRenditions(renditions: AttributeTag[], rules: RenditionRules): AttributeTag[] {
+  const preferences: Record<string, string[] | undefined> = {
+    AUDIO: rules.audioLanguages,
+    SUBTITLES: rules.subtitleLanguages,
+  }
+
+  interface Ranked {
+    index: number
+    tag: AttributeTag
+    rank: number
+  }
+  const groups = new Map<string, Ranked[]>()
+
+  renditions.forEach((tag, index) => {
+    const type = getAttribute(tag.attributes, "TYPE") ?? ""
+    const languages = preferences[type]
+    if (!languages || languages.length === 0) return
+
+    const key = `${type}|${getAttribute(tag.attributes, "GROUP-ID") ?? ""}`
+    const rank = languageRank(getAttribute(tag.attributes, "LANGUAGE"), languages)
+    groups.set(key, [...(groups.get(key) ?? []), { index, tag, rank }])
+  })
+
+  const replaced = new Map<number, AttributeTag[]>()
+  for (const group of groups.values()) {
+    const best = Math.min(...group.map((r) => r.rank))
+    if (best === Infinity) continue
+
+    // Stable sort: equally preferred renditions keep the origin's order
+    const ordered = [...group].sort((a, b) => a.rank - b.rank)
+    const kept = rules.stripOthers ? ordered.filter((r) => r.rank !== Infinity) : ordered
+    const updated = kept.map((r, i) => {
+      let attributes = setAttribute(r.tag.attributes, "DEFAULT", i === 0 ? "YES" : "NO")
+      if (i === 0) attributes = setAttribute(attributes, "AUTOSELECT", "YES")
+      return { ...r.tag, attributes }
+    })
+
+    // The whole group is written where its first rendition was
+    group.forEach((r, i) => replaced.set(r.index, i === 0 ? updated : []))
+  }
+
+  if (replaced.size === 0) return renditions
+  return renditions.flatMap((tag, index) => replaced.get(index) ?? [tag])
+}
+
+// Position of the language in the preference list, Infinity when not listed
+function languageRank(language: string | undefined, preferred: string[]): number {
+  if (!language) return Infinity
+  const tag = language.toLowerCase()
+  const index = preferred.findIndex((p) => {
+    const wanted = p.toLowerCase()
+    return tag === wanted || tag.startsWith(`${wanted}-`)
+  })
+  return index === -1 ? Infinity : index
+}
+
+export function makeProxyUrl(
+  uri: string,
+  playlistUrl: string,
+  proxyOrigin: string,
+  ref: HeaderRef,
+): string {
+  const absolute = resolveUrl(uri, playlistUrl)
+  const encoded = Buffer.from(absolute, "utf-8").toString("base64url")
+  let proxyUrl = `${proxyOrigin}/api/proxy/s?url=${encoded}`
+  const legacyHeaders = ref.channelId ? undefined : ref.legacyHeaders
+  if (ref.channelId) proxyUrl += `&c=${encodeURIComponent(ref.channelId)}`
+  else if (legacyHeaders) proxyUrl += `&h=${encodeURIComponent(legacyHeaders)}`
+  const { expires, sig } = signProxyUrl(encoded, ref.channelId, legacyHeaders)
+  proxyUrl += `&e=${expires}&sig=${sig}`
+  return proxyUrl
+}
+
+// Path-style variant for manifests whose references the player resolves
+// itself (DASH BaseURL chains, $Number$ templates):
+//   /api/proxy/d/CHANNEL/EXPIRY/SCOPE/SIG/BASE64(ORIGIN)/upstream/path?query
+// The upstream path is kept as is, so anything the player resolves against it
+// stays under the same prefix. The signature covers the upstream origin and
+// the first SCOPE directories of the path: the URL's own directory, less
+// `climb` levels for references that start with "../". Legacy ?h= headers are
+// not carried.
+export function makeProxyPathUrl(absoluteUrl: string, proxyOrigin: string, ref: HeaderRef, climb = 0): string {
+  let target: URL
+  try {
+    target = new URL(absoluteUrl)
+  } catch {
+    return absoluteUrl
+  }
+  const encoded = Buffer.from(target.origin, "utf-8").toString("base64url")
+  const directories = target.pathname.split("/").slice(1, -1)
+  const scope = Math.max(0, directories.length - climb)
+  const { expires, sig } = signProxyUrl(pathScope(encoded, directories.slice(0, scope)), ref.channelId)
+  const channel = ref.channelId ? encodeURIComponent(ref.channelId) : "_"
+  return `${proxyOrigin}/api/proxy/d/${channel}/${expires}/${scope}/${sig}/${encoded}${target.pathname}${target.search}`
+}
+
+// What a path-style signature covers: the encoded origin and the leading
+// directories of the upstream path, as they appear in the URL
+export function pathScope(encodedOrigin: string, directories: string[]): string {
+  return `${encodedOrigin}/${directories.map((d) => `${d}/`).join("")}`
+}
+
+// ── URL resolution ─────────────────────────────────────────────────────────
+// RFC 3986 reference resolution: handles "../", absolute paths, query-only
+// references and protocol-relative URIs (which keep the playlist's scheme).
+// Unparseable references are returned untouched.
+export function resolveUrl(uri: string, playlistUrl: string): string {
+  try {
+    return new URL(uri, playlistUrl).toString()
+  } catch {
+    return uri
+  }
+}
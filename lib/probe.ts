@@ -0,0 +1,185 @@
+import type { Channel, ChannelType } from "@/lib/channels"
+import { parsePlaylist, type Playlist } from "@/lib/hls"
+import { isMpd } from "@/lib/mpd-rewrite"
+import { fetchChecked } from "@/lib/network-policy"
+import { sequenceInfo, type SequenceInfo } from "@/lib/stall-detector"
+
+export interface ProbeResult {
+  ok: boolean
+  error?: string
+  latencyMs?: number
+  contentType?: string
+  isM3u8?: boolean
+  isMaster?: boolean
+  isMedia?: boolean
+  segmentCount?: number
+  playlistSize?: number
+  httpStatus?: number
+  // Media-sequence details of the media playlist (the first variant for masters)
+  sequence?: SequenceInfo
+  // Set by the health monitor when the sequence stopped advancing
+  stalled?: boolean
+}
+
+const PROBE_TIMEOUT_MS = 10000
+
+function probeHeaders(url: string, customHeaders?: Record<string, string>): Record<string, string> {
+  const u = new URL(url)
+  return {
+    "User-Agent":
+      "Mozilla/5.0 (Windows NT 10.0; Win64; x64) AppleWebKit/537.36 (KHTML, like Gecko) Chrome/131.0.0.0 Safari/537.36",
+    Accept: "*/*",
+    Origin: u.origin,
+    Referer: u.origin + "/",
+    ...(customHeaders || {}),
+  }
+}
+
+// Same deny-list and redirect checks as the proxy: a channel URL (or where it
+// redirects) must not reach a denied network just because it is probed
+function probeFetch(url: string, customHeaders?: Record<string, string>): Promise<Response> {
+  return fetchChecked(url, probeHeaders(url, customHeaders), AbortSignal.timeout(PROBE_TIMEOUT_MS), PROBE_TIMEOUT_MS)
+}
+
+// Fetch a source once and report whether it is reachable and looks like the
+// channel's type: an HLS playlist, a DASH manifest, or a stream carrying data
+export async function probeStream(
+  url: string,
+  customHeaders?: Record<string, string>,
+  type: ChannelType = "hls",
+): Promise<ProbeResult> {
+  if (!URL.canParse(url)) {
+    return { ok: false, error: "Malformed URL" }
+  }
+
+  const startTime = Date.now()
+
+  try {
+    const res = await probeFetch(url, customHeaders)
+
+    const latencyMs = Date.now() - startTime
+    const contentType = res.headers.get("content-type") || ""
+
+    // Continuous streams never end: only look at the first chunk
+    if (type === "mpegts" || type === "progressive") {
+      return await probeContinuous(res, type, latencyMs, contentType)
+    }
+
+    const text = await res.text()
+
+    if (!res.ok) {
+      return {
+        ok: false,
+        error: `HTTP ${res.status} ${res.statusText}`,
+        latencyMs,
+        httpStatus: res.status,
+      }
+    }
+
+    if (type === "dash") {
+      const ok = isMpd(text)
+      return {
+        ok,
+        error: ok ? undefined : "Response is not a DASH manifest",
+        latencyMs,
+        contentType,
+        isM3u8: false,
+        playlistSize: text.length,
+        httpStatus: res.status,
+      }
+    }
+
+    let playlist: Playlist
+    try {
+      playlist = parsePlaylist(text)
+    } catch {
+      return {
+        ok: false,
+        error: "Response is not a valid HLS playlist",
+        latencyMs,
+        contentType,
+        isM3u8: false,
+        playlistSize: text.length,
+        httpStatus: res.status,
+      }
+    }
+
+    const isMaster = playlist.type === "master"
+    const sequence =
+      playlist.type === "master"
+        ? await probeFirstVariant(playlist.variants[0]?.uri, res.url || url, customHeaders)
+        : (sequenceInfo(playlist) ?? undefined)
+
+    return {
+      ok: true,
+      latencyMs,
+      contentType,
+      isM3u8: true,
+      isMaster,
+      isMedia: playlist.type === "media" && playlist.segments.length > 0,
+      segmentCount: playlist.type === "master" ? playlist.variants.length : playlist.segments.length,
+      playlistSize: text.length,
+      httpStatus: res.status,
+      sequence,
+    }
+  } catch (err) {
+    const message = err instanceof Error ? err.message : "Unknown error"
+    return {
+      ok: false,
+      error: message.includes("timeout") ? "Connection timeout (10s)" : message,
+    }
+  }
+}
+
+async function probeContinuous(
+  res: Response,
+  type: "mpegts" | "progressive",
+  latencyMs: number,
+  contentType: string,
+): Promise<ProbeResult> {
+  if (!res.ok) {
+    await res.body?.cancel()
+    return { ok: false, error: `HTTP ${res.status} ${res.statusText}`, latencyMs, httpStatus: res.status }
+  }
+
+  const reader = res.body?.getReader()
+  const first = reader ? await reader.read() : undefined
+  await reader?.cancel()
+
+  const chunk = first?.value
+  let error: string | undefined
+  if (!chunk || chunk.length === 0) error = "Stream ended without data"
+  // Every transport stream packet starts with the 0x47 sync byte
+  else if (type === "mpegts" && chunk[0] !== 0x47) error = "Response is not an MPEG-TS stream"
+
+  return { ok: !error, error, latencyMs, contentType, isM3u8: false, httpStatus: res.status }
+}
+
+// A master playlist says nothing about liveness: read the first variant's sequence.
+// Failures here are not fatal, the master itself was reachable.
+async function probeFirstVariant(
+  uri: string | undefined,
+  masterUrl: string,
+  customHeaders?: Record<string, string>,
+): Promise<SequenceInfo | undefined> {
+  if (!uri) return undefined
+
+  try {
+    const variantUrl = new URL(uri, masterUrl).toString()
+    const res = await probeFetch(variantUrl, customHeaders)
+    if (!res.ok) {
+      await res.body?.cancel()
+      return undefined
+    }
+    return sequenceInfo(parsePlaylist(await res.text())) ?? undefined
+  } catch {
+    return undefined
+  }
+}
+
+// Map a probe result onto the persisted channel status. A response that came
+// back but was unusable is an "error"; no response at all means "offline".
+export function statusFromProbe(result: ProbeResult): NonNullable<Channel["status"]> {
+  if (result.ok) return result.stalled ? "stalled" : "online"
+  return result.httpStatus !== undefined ? "error" : "offline"
+}
@@ -0,0 +1,97 @@
+import { describe, expect, it } from "vitest"
+import { SegmentCache } from "@/lib/segment-cache"
+
+const encoder = new TextEncoder()
+
+// An upstream whose body is fed by hand, recording the fetches it receives
+function upstream(headers: Record<string, string> = {}) {
+  const signals: AbortSignal[] = []
+  let body!: ReadableStreamDefaultController<Uint8Array>
+  const fetcher = async (signal: AbortSignal) => {
+    signals.push(signal)
+    return new Response(new ReadableStream<Uint8Array>({ start: (c) => void (body = c) }), { headers })
+  }
+  return {
+    fetcher,
+    signals,
+    write: (text: string) => body.enqueue(encoder.encode(text)),
+    end: () => body.close(),
+  }
+}
+
+const always = () => true
+
+describe("SegmentCache", () => {
+  it("coalesces concurrent fetches into one upstream request", async () => {
+    const cache = new SegmentCache(1024, 1024, 60_000)
+    const origin = upstream({ "content-type": "video/mp2t", etag: '"v1"' })
+
+    const first = await cache.fetch("seg", origin.fetcher, always)
+    origin.write("abc")
+    const second = await cache.fetch("seg", origin.fetcher, always)
+    origin.write("def")
+    origin.end()
+
+    expect(origin.signals).toHaveLength(1)
+    expect([first.coalesced, second.coalesced]).toEqual([false, true])
+    // The joiner reads from the first byte, not from where the download had got to
+    expect(await Promise.all([first.text(), second.text()])).toEqual(["abcdef", "abcdef"])
+    expect(cache.stats()).toMatchObject({ misses: 1, coalesced: 1, bytesSaved: 6 })
+  })
+
+  it("serves the completed body from the cache with its validators", async () => {
+    const cache = new SegmentCache(1024, 1024, 60_000)
+    const origin = upstream({ "content-type": "video/mp2t", etag: '"v1"' })
+
+    const res = await cache.fetch("seg", origin.fetcher, always)
+    origin.write("abcdef")
+    origin.end()
+    await res.text()
+
+    const hit = cache.get("seg")
+    expect(hit && new TextDecoder().decode(hit.body)).toBe("abcdef")
+    expect(hit).toMatchObject({ contentType: "video/mp2t", validators: { etag: '"v1"' } })
+    expect(cache.stats()).toMatchObject({ hits: 1, entries: 1, bytes: 6 })
+  })
+
+  it.each([
+    ["not storable", () => false, 1024],
+    ["larger than an entry may be", always, 4],
+  ])("does not keep a body that is %s", async (_, storable, maxEntryBytes) => {
+    const cache = new SegmentCache(1024, maxEntryBytes, 60_000)
+    const origin = upstream()
+
+    const res = await cache.fetch("seg", origin.fetcher, storable)
+    origin.write("abcdef")
+    origin.end()
+    expect(await res.text()).toBe("abcdef")
+    expect(cache.get("seg")).toBeUndefined()
+  })
+
+  it("aborts the upstream fetch once the last claim is released", async () => {
+    const cache = new SegmentCache(1024, 1024, 60_000)
+    const origin = upstream()
+
+    const first = await cache.fetch("seg", origin.fetcher, always)
+    const second = await cache.fetch("seg", origin.fetcher, always)
+    const [signal] = origin.signals
+
+    first.release()
+    expect(signal.aborted).toBe(false)
+    second.release()
+    expect(signal.aborted).toBe(true)
+
+    // The aborted download is not joined by later requests
+    await cache.fetch("seg", origin.fetcher, always)
+    expect(origin.signals).toHaveLength(2)
+  })
+
+  it("aborts when the last stream is cancelled", async () => {
+    const cache = new SegmentCache(1024, 1024, 60_000)
+    const origin = upstream()
+
+    const res = await cache.fetch("seg", origin.fetcher, always)
+    await res.stream().cancel()
+    expect(origin.signals[0].aborted).toBe(true)
+  })
+})
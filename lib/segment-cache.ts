@@ -0,0 +1,384 @@
+import { config } from "@/lib/config"
+
+/**
+ * Shared segment cache for the resource proxy
+ *
+ * Two layers keyed by upstream URL:
+ *   - an LRU of completed bodies, bounded by a byte budget and a TTL
+ *   - in-flight downloads that concurrent requests join instead of hitting
+ *     the origin again. Joiners read the body as it streams in, from the first
+ *     byte, so coalescing does not delay time-to-first-byte.
+ *
+ * Every request that joins a download holds a claim on it; the upstream
+ * fetch is aborted once every claim has been released before completion
+ * (all viewers went away), mirroring the uncached passthrough. The upstream
+ * is read at the pace of the slowest claim, and only bodies that will be
+ * cached are kept whole: the others are dropped as they are consumed, and
+ * can no longer be joined once they have been.
+ */
+
+export interface CachedSegment {
+  body: Uint8Array
+  contentType: string
+  // Of the origin response, for If-Range on later hits
+  validators: Validators
+  expiresAt: number
+}
+
+export interface Validators {
+  etag?: string
+  lastModified?: string
+}
+
+export function validatorsOf(headers: Headers): Validators {
+  const validators: Validators = {}
+  const etag = headers.get("etag")
+  const lastModified = headers.get("last-modified")
+  if (etag) validators.etag = etag
+  if (lastModified) validators.lastModified = lastModified
+  return validators
+}
+
+export interface SegmentCacheStats {
+  hits: number
+  misses: number
+  coalesced: number
+  // Bytes delivered without an origin request (cache hits + coalesced joins)
+  bytesSaved: number
+  evictions: number
+  entries: number
+  bytes: number
+  maxBytes: number
+}
+
+type Fetcher = (signal: AbortSignal) => Promise<Response>
+type Storable = (res: Response) => boolean
+
+// How far the upstream body is read ahead of the slowest reader
+const READ_AHEAD_BYTES = 1024 * 1024
+
+// One claim on a download: where its stream has got to
+interface Reader {
+  index: number
+  bytes: number
+}
+
+class SharedDownload {
+  readonly url: string
+  readonly status: number
+  readonly headers: Headers
+  // Received chunks, from chunk number `dropped` on. Downloads that will be
+  // cached keep the whole body; the others drop what every reader has consumed.
+  private chunks: Uint8Array[] = []
+  private dropped = 0
+  private received = 0
+  private done = false
+  private failure: unknown = null
+  private waiters: (() => void)[] = []
+  // The pump, waiting for the slowest reader to catch up
+  private pumpWaiter: (() => void) | null = null
+  private readers = new Set<Reader>()
+
+  constructor(
+    res: Response,
+    private abort: () => void,
+    // The whole body when it was kept, else null
+    private onComplete: (body: Uint8Array | null) => void,
+    // Chunks started being dropped: nobody can join from the first byte anymore
+    private onUnjoinable: () => void,
+    private buffering: boolean,
+    private maxBufferBytes: number,
+  ) {
+    this.url = res.url
+    this.status = res.status
+    this.headers = res.headers
+    void this.pump(res.body)
+  }
+
+  // A claim reading from the first byte; null once that byte is gone
+  join(): Reader | null {
+    if (this.dropped > 0) return null
+    const reader = { index: 0, bytes: 0 }
+    this.readers.add(reader)
+    return reader
+  }
+
+  release(reader: Reader) {
+    if (!this.readers.delete(reader)) return
+    if (this.readers.size === 0 && !this.done) this.abort()
+    this.consumed()
+  }
+
+  // A fresh stream over the whole body; releases the claim when finished
+  stream(reader: Reader, onChunk?: (bytes: number) => void): ReadableStream<Uint8Array> {
+    return new ReadableStream<Uint8Array>({
+      pull: async (controller) => {
+        while (reader.index >= this.dropped + this.chunks.length && !this.done) {
+          await new Promise<void>((resolve) => this.waiters.push(resolve))
+        }
+        if (reader.index < this.dropped + this.chunks.length) {
+          const chunk = this.chunks[reader.index++ - this.dropped]
+          reader.bytes += chunk.byteLength
+          onChunk?.(chunk.byteLength)
+          controller.enqueue(chunk)
+          this.consumed()
+          return
+        }
+        this.release(reader)
+        if (this.failure) controller.error(this.failure)
+        else controller.close()
+      },
+      cancel: () => this.release(reader),
+    })
+  }
+
+  async text(reader: Reader, onChunk?: (bytes: number) => void): Promise<string> {
+    const stream = this.stream(reader, onChunk).getReader()
+    const parts: Uint8Array[] = []
+    for (;;) {
+      const { done, value } = await stream.read()
+      if (done) break
+      parts.push(value)
+    }
+    return new TextDecoder().decode(concat(parts))
+  }
+
+  private async pump(body: ReadableStream<Uint8Array> | null) {
+    try {
+      if (body) {
+        const reader = body.getReader()
+        for (;;) {
+          // Backpressure: never more than READ_AHEAD_BYTES ahead of any reader
+          while (this.readers.size > 0 && this.received - this.slowest() > READ_AHEAD_BYTES) {
+            await new Promise<void>((resolve) => (this.pumpWaiter = resolve))
+          }
+          const { done, value } = await reader.read()
+          if (done) break
+          this.chunks.push(value)
+          this.received += value.byteLength
+          // Too big to keep: stop buffering, later requests start their own download
+          if (this.buffering && this.received > this.maxBufferBytes) this.buffering = false
+          this.trim()
+          this.wake()
+        }
+      }
+      this.done = true
+      this.onComplete(this.buffering ? concat(this.chunks) : null)
+    } catch (e) {
+      this.failure = e ?? new Error("Upstream body failed")
+    } finally {
+      this.done = true
+      this.wake()
+    }
+  }
+
+  private slowest(): number {
+    let bytes = Infinity
+    for (const reader of this.readers) bytes = Math.min(bytes, reader.bytes)
+    return bytes
+  }
+
+  // A reader moved on or left: drop what is no longer needed, resume the pump
+  private consumed() {
+    this.trim()
+    const resume = this.pumpWaiter
+    this.pumpWaiter = null
+    resume?.()
+  }
+
+  private trim() {
+    if (this.buffering || this.readers.size === 0) return
+    let index = Infinity
+    for (const reader of this.readers) index = Math.min(index, reader.index)
+    if (index <= this.dropped) return
+
+    if (this.dropped === 0) this.onUnjoinable()
+    this.chunks.splice(0, index - this.dropped)
+    this.dropped = index
+  }
+
+  private wake() {
+    const waiters = this.waiters
+    this.waiters = []
+    for (const resolve of waiters) resolve()
+  }
+}
+
+// What a caller gets back from SegmentCache.fetch: a claim on a shared download
+export interface SharedResponse {
+  // Final upstream URL, after redirects
+  url: string
+  status: number
+  headers: Headers
+  // Whether this caller joined a download started by another request
+  coalesced: boolean
+  // Exactly one of stream() / text() / release() must be called
+  stream(): ReadableStream<Uint8Array>
+  text(): Promise<string>
+  release(): void
+}
+
+// Adapts a plain upstream Response (one that bypassed the cache) to the same shape
+export function unsharedResponse(res: Response): SharedResponse {
+  return {
+    url: res.url,
+    status: res.status,
+    headers: res.headers,
+    coalesced: false,
+    stream: () => res.body ?? new ReadableStream<Uint8Array>({ start: (c) => c.close() }),
+    text: () => res.text(),
+    release: () => void res.body?.cancel().catch(() => {}),
+  }
+}
+
+export class SegmentCache {
+  private entries = new Map<string, CachedSegment>()
+  private inflight = new Map<string, Promise<SharedDownload>>()
+  private bytes = 0
+  private counters = { hits: 0, misses: 0, coalesced: 0, bytesSaved: 0, evictions: 0 }
+
+  constructor(
+    private maxBytes: number,
+    private maxEntryBytes: number,
+    private ttlMs: number,
+  ) {}
+
+  // Completed body for `key`, refreshed as most recently used
+  get(key: string): CachedSegment | undefined {
+    const entry = this.entries.get(key)
+    if (!entry) return undefined
+    if (entry.expiresAt <= Date.now()) {
+      this.delete(key)
+      return undefined
+    }
+    this.entries.delete(key)
+    this.entries.set(key, entry)
+    this.counters.hits++
+    this.counters.bytesSaved += entry.body.byteLength
+    return entry
+  }
+
+  /**
+   * Fetch `key` once for every concurrent caller. `storable` decides, from the
+   * upstream response, whether the completed body goes into the LRU.
+   */
+  async fetch(key: string, fetcher: Fetcher, storable: Storable): Promise<SharedResponse> {
+    const pending = this.inflight.get(key)
+    if (pending) {
+      // Claim before awaiting so the download cannot be aborted underneath us
+      const joined = await pending.then(
+        (download) => {
+          const reader = download.join()
+          return reader && { download, reader }
+        },
+        () => null,
+      )
+      if (joined) {
+        this.counters.coalesced++
+        return this.handle(joined.download, joined.reader, true)
+      }
+      // The shared attempt failed or has moved past its first byte; fall through to our own
+    }
+
+    this.counters.misses++
+    const controller = new AbortController()
+    const forget = () => {
+      if (this.inflight.get(key) === started) this.inflight.delete(key)
+    }
+
+    const started = fetcher(controller.signal).then((res) => {
+      const store = res.status === 200 && storable(res) && this.maxBytes > 0
+      const download = new SharedDownload(
+        res,
+        () => {
+          forget()
+          controller.abort()
+        },
+        (body) => {
+          forget()
+          if (body) this.set(key, body, res.headers.get("content-type") || "", validatorsOf(res.headers))
+        },
+        forget,
+        store,
+        this.maxEntryBytes,
+      )
+      return download
+    })
+
+    this.inflight.set(key, started)
+    started.catch(forget)
+
+    const download = await started
+    // Nothing has been read yet, so the first claim always succeeds
+    return this.handle(download, download.join() as Reader, false)
+  }
+
+  stats(): SegmentCacheStats {
+    return {
+      ...this.counters,
+      entries: this.entries.size,
+      bytes: this.bytes,
+      maxBytes: this.maxBytes,
+    }
+  }
+
+  private handle(download: SharedDownload, reader: Reader, coalesced: boolean): SharedResponse {
+    const onChunk = coalesced ? (bytes: number) => (this.counters.bytesSaved += bytes) : undefined
+    return {
+      url: download.url,
+      status: download.status,
+      headers: download.headers,
+      coalesced,
+      stream: () => download.stream(reader, onChunk),
+      text: () => download.text(reader, onChunk),
+      release: () => download.release(reader),
+    }
+  }
+
+  private set(key: string, body: Uint8Array, contentType: string, validators: Validators) {
+    if (body.byteLength > this.maxEntryBytes || body.byteLength > this.maxBytes) return
+    this.delete(key)
+    this.entries.set(key, { body, contentType, validators, expiresAt: Date.now() + this.ttlMs })
+    this.bytes += body.byteLength
+
+    // Map iteration order is insertion order, so the first key is the LRU one
+    for (const oldest of this.entries.keys()) {
+      if (this.bytes <= this.maxBytes) break
+      this.delete(oldest)
+      this.counters.evictions++
+    }
+  }
+
+  private delete(key: string) {
+    const entry = this.entries.get(key)
+    if (!entry) return
+    this.entries.delete(key)
+    this.bytes -= entry.body.byteLength
+  }
+}
+
+function concat(parts: Uint8Array[]): Uint8Array {
+  if (parts.length === 1) return parts[0]
+  const total = parts.reduce((n, p) => n + p.byteLength, 0)
+  const out = new Uint8Array(total)
+  let offset = 0
+  for (const part of parts) {
+    out.set(part, offset)
+    offset += part.byteLength
+  }
+  return out
+}
+
+// One cache per server process, shared by every route bundle
+const globalForCache = globalThis as unknown as { segmentCache?: SegmentCache }
+
+export function getSegmentCache(): SegmentCache {
+  if (!globalForCache.segmentCache) {
+    globalForCache.segmentCache = new SegmentCache(
+      config.segmentCacheMaxBytes,
+      config.segmentCacheMaxEntryBytes,
+      config.segmentCacheTtlSeconds * 1000,
+    )
+  }
+  return globalForCache.segmentCache
+}
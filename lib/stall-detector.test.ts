@@ -0,0 +1,57 @@
+import { describe, expect, it } from "vitest"
+import { config } from "@/lib/config"
+import { forgetChannelSequences, observeSequence, type SequenceInfo } from "@/lib/stall-detector"
+
+const LIVE: SequenceInfo = { mediaSequence: 100, targetDuration: 6, endList: false }
+// How long a live sequence may stay put before it counts as stalled
+const LIMIT_MS = config.stallTargetDurations * LIVE.targetDuration * 1000
+
+// Observations are process-wide: every test works under its own key
+let keys = 0
+const nextKey = () => `proxy|test${keys++}|media`
+
+describe("observeSequence", () => {
+  it("knows nothing from a first sighting", () => {
+    expect(observeSequence(nextKey(), LIVE, 0)).toBe("unknown")
+  })
+
+  it("reports a sequence that stays put as stalled once past the limit", () => {
+    const key = nextKey()
+    observeSequence(key, LIVE, 0)
+    expect(observeSequence(key, LIVE, LIMIT_MS)).toBe("advancing")
+    expect(observeSequence(key, LIVE, LIMIT_MS + 1)).toBe("stalled")
+  })
+
+  it.each([
+    ["advances", 101],
+    ["resets after an origin restart", 1],
+  ])("restarts the clock when the sequence %s", (_, mediaSequence) => {
+    const key = nextKey()
+    observeSequence(key, LIVE, 0)
+    expect(observeSequence(key, { ...LIVE, mediaSequence }, LIMIT_MS)).toBe("advancing")
+    expect(observeSequence(key, { ...LIVE, mediaSequence }, 2 * LIMIT_MS)).toBe("advancing")
+    expect(observeSequence(key, { ...LIVE, mediaSequence }, 2 * LIMIT_MS + 1)).toBe("stalled")
+  })
+
+  it("never reports finished playlists as stalled", () => {
+    const key = nextKey()
+    observeSequence(key, LIVE, 0)
+    expect(observeSequence(key, { ...LIVE, endList: true }, 10 * LIMIT_MS)).toBe("unknown")
+    // Their observation is dropped
+    expect(observeSequence(key, LIVE, 10 * LIMIT_MS)).toBe("unknown")
+  })
+
+  it("forgets observations nobody refreshed", () => {
+    const key = nextKey()
+    const staleAfterMs = Math.max(LIMIT_MS, config.healthCheckIntervalMs) * 2
+    observeSequence(key, LIVE, 0)
+    expect(observeSequence(key, LIVE, staleAfterMs + 1)).toBe("unknown")
+  })
+
+  it("forgets a channel's observations on request", () => {
+    const key = nextKey()
+    observeSequence(key, LIVE, 0)
+    forgetChannelSequences(key.split("|")[1])
+    expect(observeSequence(key, LIVE, LIMIT_MS + 1)).toBe("unknown")
+  })
+})
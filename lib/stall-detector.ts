@@ -0,0 +1,98 @@
+import { config } from "@/lib/config"
+import type { Playlist } from "@/lib/hls"
+
+/**
+ * Media-sequence progression tracking
+ *
+ * Some origins keep answering 200 with a live media playlist whose
+ * #EXT-X-MEDIA-SEQUENCE never moves. A playlist is "stalled" once its
+ * sequence has not advanced for STALL_TARGET_DURATIONS target durations.
+ * Both the proxy (on every origin playlist fetch) and the health monitor
+ * (on every probe) feed observations in, under their own keys. Observations
+ * nobody has refreshed for a while (the playlist is no longer watched, the
+ * channel is gone) are evicted.
+ */
+
+export interface SequenceInfo {
+  mediaSequence: number
+  targetDuration: number
+  endList: boolean
+}
+
+export type Progress = "advancing" | "stalled" | "unknown"
+
+interface Observation {
+  sequence: number
+  advancedAt: number
+  seenAt: number
+  // Unrefreshed for this long, the observation is dropped
+  staleAfterMs: number
+}
+
+const globalForStall = globalThis as unknown as { sequenceObservations?: Map<string, Observation> }
+
+function observations(): Map<string, Observation> {
+  if (!globalForStall.sequenceObservations) globalForStall.sequenceObservations = new Map()
+  return globalForStall.sequenceObservations
+}
+
+// Sequence details of a media playlist; null for master playlists
+export function sequenceInfo(playlist: Playlist): SequenceInfo | null {
+  if (playlist.type !== "media" || playlist.targetDuration <= 0) return null
+  return {
+    mediaSequence: playlist.mediaSequence,
+    targetDuration: playlist.targetDuration,
+    endList: playlist.endList,
+  }
+}
+
+/**
+ * Record one observation of the playlist identified by `key`. Returns
+ * "unknown" for a first sighting and for finished (VOD) playlists, which
+ * never advance by design; "advancing" also covers a sequence that has not
+ * moved yet but is still within the limit.
+ */
+export function observeSequence(key: string, info: SequenceInfo, now = Date.now()): Progress {
+  const seen = observations()
+  evictStale(seen, now)
+  if (info.endList) {
+    seen.delete(key)
+    return "unknown"
+  }
+
+  const limitMs = config.stallTargetDurations * info.targetDuration * 1000
+  // The health monitor only observes once per check interval: keep its
+  // observations across runs, with room for a late one
+  const staleAfterMs = Math.max(limitMs, config.healthCheckIntervalMs) * 2
+
+  const previous = seen.get(key)
+  // Any change counts, including a reset to a lower sequence after an origin restart
+  if (!previous || info.mediaSequence !== previous.sequence) {
+    seen.set(key, { sequence: info.mediaSequence, advancedAt: now, seenAt: now, staleAfterMs })
+    return previous ? "advancing" : "unknown"
+  }
+
+  previous.seenAt = now
+  previous.staleAfterMs = staleAfterMs
+  return now - previous.advancedAt > limitMs ? "stalled" : "advancing"
+}
+
+function evictStale(seen: Map<string, Observation>, now: number) {
+  for (const [key, observation] of seen) {
+    if (now - observation.seenAt > observation.staleAfterMs) seen.delete(key)
+  }
+}
+
+// Drop every observation whose key starts with `prefix`, e.g. after a source switch
+export function forgetSequences(prefix: string) {
+  const seen = observations()
+  for (const key of seen.keys()) {
+    if (key.startsWith(prefix)) seen.delete(key)
+  }
+}
+
+// Everything observed for a channel, by the proxy and the health monitor
+export function forgetChannelSequences(channelId: string) {
+  forgetSequences(`proxy|${channelId}|`)
+  forgetSequences(`probe|${channelId}|`)
+}
@@ -0,0 +1,162 @@
+import { beforeEach, describe, expect, it, vi } from "vitest"
+import type { Channel, NewChannel } from "@/lib/channels"
+import { syncSubscription } from "@/lib/subscription-sync"
+import type { Subscription } from "@/lib/subscriptions"
+
+// The list download, subscriptions.json and the channel store are replaced by
+// in-memory stand-ins; everything between them runs for real
+const world = vi.hoisted(() => ({
+  list: "",
+  subscriptions: [] as Subscription[],
+  channels: [] as Channel[],
+  added: [] as NewChannel[],
+}))
+
+vi.mock("@/lib/channel-import", async (importOriginal) => ({
+  ...(await importOriginal<typeof import("@/lib/channel-import")>()),
+  fetchM3u: async (url: string) => ({ text: world.list, url }),
+}))
+
+vi.mock("@/lib/subscriptions", async (importOriginal) => ({
+  ...(await importOriginal<typeof import("@/lib/subscriptions")>()),
+  getSubscriptions: async () => world.subscriptions,
+  updateSubscription: async (id: string, updates: Partial<Subscription>) => {
+    world.subscriptions = world.subscriptions.map((s) => (s.id === id ? { ...s, ...updates } : s))
+    return world.subscriptions.find((s) => s.id === id) ?? null
+  },
+}))
+
+vi.mock("@/lib/channels", async (importOriginal) => ({
+  ...(await importOriginal<typeof import("@/lib/channels")>()),
+  updateChannels: async <T,>(
+    change: (channels: Channel[]) => Promise<{ channels: Channel[]; added?: NewChannel[]; result: T }>,
+  ) => {
+    const { channels, added = [], result } = await change(world.channels)
+    world.channels = channels
+    world.added.push(...added)
+    return result
+  },
+}))
+
+const SUBSCRIPTION: Subscription = {
+  id: "sub",
+  name: "Lista",
+  url: "https://lists.example.com/es.m3u",
+  rules: { match: "tvg-id-or-name", addNew: true },
+  createdAt: "2026-01-01T00:00:00.000Z",
+}
+
+function channel(id: string, fields: Partial<Channel> = {}): Channel {
+  const sourceUrl = fields.sourceUrl ?? `https://old.example.com/${id}.m3u8`
+  return {
+    id,
+    name: id.toUpperCase(),
+    type: "hls",
+    sourceUrl,
+    sources: [sourceUrl],
+    activeSourceIndex: 0,
+    createdAt: "2026-01-01T00:00:00.000Z",
+    segmentDelay: 0,
+    status: "online",
+    ...fields,
+  }
+}
+
+const byId = (id: string) => world.channels.find((c) => c.id === id)
+
+beforeEach(() => {
+  world.subscriptions = [SUBSCRIPTION]
+  world.channels = []
+  world.added = []
+})
+
+describe("syncSubscription", () => {
+  it("moves matched channels to the list's URLs and keeps their backups", async () => {
+    world.channels = [
+      channel("a", { tvgId: "a.es", sources: ["https://old.example.com/a.m3u8", "https://backup.example.com/a.m3u8"] }),
+      channel("b"),
+    ]
+    world.list = `#EXTM3U
+#EXTINF:-1 tvg-id="a.es",Otro nombre
+#EXTVLCOPT:http-referrer=https://www.example.com/
+https://new.example.com/a.m3u8
+#EXTINF:-1,b
+https://old.example.com/b.m3u8
+`
+    const result = await syncSubscription("sub")
+
+    expect(result).toMatchObject({ ok: true, updated: 1, unchanged: 1, added: 0, missing: 0 })
+    expect(byId("a")).toMatchObject({
+      sourceUrl: "https://new.example.com/a.m3u8",
+      sources: ["https://new.example.com/a.m3u8", "https://backup.example.com/a.m3u8"],
+      status: "unknown",
+      customHeaders: { Referer: "https://www.example.com/" },
+      subscriptionId: "sub",
+    })
+    // Unchanged sources keep their health
+    expect(byId("b")).toMatchObject({ status: "online", subscriptionId: "sub" })
+    expect(world.subscriptions[0].lastSync).toEqual(result)
+  })
+
+  it("adds unmatched entries and flags linked channels the list dropped", async () => {
+    world.channels = [channel("gone", { subscriptionId: "sub" }), channel("other", { subscriptionId: "elsewhere" })]
+    world.list = `#EXTM3U
+#EXTINF:-1 group-title="Radio",Radio 3
+http://radio.example.com/r3.mp3
+#EXTINF:-1,Radio 3
+http://radio.example.com/duplicate.mp3
+#EXTINF:-1,Other
+https://new.example.com/other.m3u8
+`
+    const result = await syncSubscription("sub")
+
+    expect(result).toMatchObject({ ok: true, added: 2, missing: 1 })
+    expect(world.added).toEqual([
+      {
+        name: "Radio 3",
+        sourceUrl: "http://radio.example.com/r3.mp3",
+        options: expect.objectContaining({ type: "progressive", group: "Radio", subscriptionId: "sub" }),
+      },
+      // Channels of another subscription are never matched
+      expect.objectContaining({ name: "Other", sourceUrl: "https://new.example.com/other.m3u8" }),
+    ])
+    expect(byId("gone")?.missingSince).toBe(result?.at)
+    expect(byId("other")).toEqual(channel("other", { subscriptionId: "elsewhere" }))
+  })
+
+  it("only syncs the selected groups and skips ignored entries", async () => {
+    world.subscriptions = [{ ...SUBSCRIPTION, rules: { ...SUBSCRIPTION.rules, groups: ["noticias"] }, ignored: ["name:c"] }]
+    world.list = `#EXTM3U
+#EXTINF:-1 group-title="Noticias",A
+https://new.example.com/a.m3u8
+#EXTINF:-1 group-title="Noticias",C
+https://new.example.com/c.m3u8
+#EXTINF:-1 group-title="Deportes",B
+https://new.example.com/b.m3u8
+`
+    await syncSubscription("sub")
+    expect(world.added.map((c) => c.name)).toEqual(["A"])
+  })
+
+  it("cuts guide attributes down as an import would", async () => {
+    world.channels = [channel("a")]
+    world.list = `#EXTM3U\n#EXTINF:-1 tvg-name="${"x".repeat(250)}",A\nhttps://new.example.com/a.m3u8\n`
+
+    expect(await syncSubscription("sub")).toMatchObject({ ok: true, updated: 1 })
+    expect(byId("a")?.tvgName).toHaveLength(200)
+  })
+
+  it("records a failure instead of flagging everything on an empty list", async () => {
+    world.channels = [channel("a", { subscriptionId: "sub" })]
+    world.list = "#EXTM3U\n"
+
+    const result = await syncSubscription("sub")
+    expect(result).toMatchObject({ ok: false, error: "The list has no entries to sync", missing: 0 })
+    expect(byId("a")?.missingSince).toBeUndefined()
+    expect(world.subscriptions[0].lastSync).toEqual(result)
+  })
+
+  it("returns null for unknown subscriptions", async () => {
+    expect(await syncSubscription("nope")).toBeNull()
+  })
+})
@@ -0,0 +1,259 @@
+import { fetchM3u, fitGuideText } from "@/lib/channel-import"
+import { channelCreateSchema } from "@/lib/channel-schema"
+import { getChannelSources } from "@/lib/channel-sources"
+import { updateChannels, type Channel, type NewChannel } from "@/lib/channels"
+import { config } from "@/lib/config"
+import { guessChannelType, parseM3u, type M3uEntry } from "@/lib/m3u"
+import {
+  getSubscriptions,
+  subscriptionKey,
+  updateSubscription,
+  type Subscription,
+  type SubscriptionRules,
+  type SyncResult,
+} from "@/lib/subscriptions"
+
+/**
+ * M3U subscription sync
+ *
+ * Re-fetches every subscription's list once SUBSCRIPTION_SYNC_INTERVAL_MS has
+ * passed since its last sync, and applies it to the channel list in a single
+ * write:
+ *   - entries matching a channel (by tvg-id and/or name, see the rules) move
+ *     that channel's primary source to the entry's URL. The channel keeps its
+ *     id, so proxy URLs handed out to players keep working.
+ *   - entries matching nothing become new channels (when rules.addNew)
+ *   - channels of the subscription the list no longer has are flagged with
+ *     missingSince, never deleted
+ *
+ * Channels linked to another subscription are never touched. State lives on
+ * globalThis for the same reasons as the health monitor.
+ */
+
+// How often due subscriptions are looked for
+const CHECK_INTERVAL_MS = 60_000
+
+interface SyncState {
+  timer: ReturnType<typeof setTimeout> | null
+  // Syncs in progress, joined instead of run twice
+  inFlight: Map<string, Promise<SyncResult | null>>
+}
+
+const globalForSync = globalThis as unknown as { subscriptionSync?: SyncState }
+
+function state(): SyncState {
+  if (!globalForSync.subscriptionSync) globalForSync.subscriptionSync = { timer: null, inFlight: new Map() }
+  return globalForSync.subscriptionSync
+}
+
+export function startSubscriptionSync() {
+  const current = state()
+  if (current.timer) return
+  if (config.subscriptionSyncIntervalMs <= 0) {
+    console.log("[subscriptions] Scheduled sync disabled (SUBSCRIPTION_SYNC_INTERVAL_MS=0)")
+    return
+  }
+
+  const schedule = (delay: number) => {
+    current.timer = setTimeout(tick, delay)
+    // Never keep the process alive just for the sync
+    current.timer.unref?.()
+  }
+
+  const tick = async () => {
+    try {
+      await syncDueSubscriptions()
+    } catch (e) {
+      console.error("[subscriptions] Sync run failed:", e)
+    } finally {
+      schedule(Math.min(CHECK_INTERVAL_MS, config.subscriptionSyncIntervalMs))
+    }
+  }
+
+  console.log(`[subscriptions] Scheduled sync started, interval ${config.subscriptionSyncIntervalMs}ms`)
+  schedule(0)
+}
+
+async function syncDueSubscriptions() {
+  const now = Date.now()
+  for (const subscription of await getSubscriptions()) {
+    const last = subscription.lastSync ? new Date(subscription.lastSync.at).getTime() : 0
+    if (now - last >= config.subscriptionSyncIntervalMs) await syncSubscription(subscription.id)
+  }
+}
+
+// Fetches the list and applies it now; null when the subscription does not exist
+export function syncSubscription(id: string): Promise<SyncResult | null> {
+  const { inFlight } = state()
+  let run = inFlight.get(id)
+  if (!run) {
+    run = runSync(id).finally(() => inFlight.delete(id))
+    inFlight.set(id, run)
+  }
+  return run
+}
+
+async function runSync(id: string): Promise<SyncResult | null> {
+  const subscription = (await getSubscriptions()).find((s) => s.id === id)
+  if (!subscription) return null
+
+  let result: SyncResult
+  try {
+    const list = await fetchM3u(subscription.url)
+    // Guide attributes are cut down as an import would, before matching on them
+    const parsed = parseM3u(list.text, list.url).entries.map((entry) => fitGuideText(entry).entry)
+    const entries = selectEntries(parsed, subscription.rules)
+    // An empty list is far more likely an outage than every channel being
+    // gone: do not flag the whole subscription as missing
+    if (entries.length === 0) throw new Error("The list has no entries to sync")
+    const applied = await updateChannels(async (channels) => {
+      // Deleted while the list was downloading: its channels were already
+      // unlinked and must not be linked again
+      if (!(await getSubscriptions()).some((s) => s.id === id)) return { channels, result: null }
+      return applyList(subscription, entries, channels)
+    })
+    if (!applied) {
+      console.log(`[subscriptions] ${subscription.name} was deleted during its sync, nothing applied`)
+      return null
+    }
+    result = applied
+  } catch (e) {
+    result = {
+      at: new Date().toISOString(),
+      ok: false,
+      error: e instanceof Error ? e.message : "Sync failed",
+      updated: 0,
+      unchanged: 0,
+      added: 0,
+      missing: 0,
+    }
+  }
+
+  await updateSubscription(id, { lastSync: result })
+  if (result.ok) {
+    console.log(
+      `[subscriptions] ${subscription.name}: ${result.updated} updated, ${result.added} added, ${result.missing} missing`,
+    )
+  } else {
+    console.warn(`[subscriptions] ${subscription.name} failed:`, result.error)
+  }
+  return result
+}
+
+// Entries of the selected groups, first one per match key
+function selectEntries(entries: M3uEntry[], rules: SubscriptionRules): M3uEntry[] {
+  const groups = new Set((rules.groups ?? []).map((g) => g.trim().toLowerCase()))
+  const seen = new Set<string>()
+  return entries.filter((entry) => {
+    if (groups.size > 0 && !groups.has(entry.group?.trim().toLowerCase() ?? "")) return false
+    const key = subscriptionKey(rules.match, entry)
+    if (!key || seen.has(key)) return false
+    seen.add(key)
+    return true
+  })
+}
+
+function applyList(
+  subscription: Subscription,
+  entries: M3uEntry[],
+  channels: Channel[],
+): { channels: Channel[]; added: NewChannel[]; result: SyncResult } {
+  const { rules } = subscription
+  const at = new Date().toISOString()
+  const result: SyncResult = { at, ok: true, updated: 0, unchanged: 0, added: 0, missing: 0 }
+
+  // Channels of this subscription take precedence over unlinked ones
+  const candidates = new Map<string, Channel>()
+  const linked = channels.filter((c) => c.subscriptionId === subscription.id)
+  const unlinked = channels.filter((c) => !c.subscriptionId)
+  for (const channel of [...linked, ...unlinked]) {
+    for (const key of channelKeys(rules.match, channel)) {
+      if (!candidates.has(key)) candidates.set(key, channel)
+    }
+  }
+
+  const ignored = new Set(subscription.ignored ?? [])
+  const synced = new Map<string, Channel>()
+  const added: NewChannel[] = []
+  const invalid: string[] = []
+
+  for (const entry of entries) {
+    const key = subscriptionKey(rules.match, entry) as string
+    if (ignored.has(key)) continue
+
+    const match = candidates.get(key)
+    if (match && !synced.has(match.id)) {
+      const updated = applyEntry(match, entry, subscription.id)
+      if (getChannelSources(updated)[0] !== getChannelSources(match)[0]) result.updated++
+      else result.unchanged++
+      synced.set(match.id, updated)
+    } else if (!match && rules.addNew) {
+      // Held to the same rules as channels added by hand or by an import
+      const parsed = channelCreateSchema.safeParse({
+        name: entry.name,
+        type: rules.type ?? guessChannelType(entry.url),
+        sourceUrl: entry.url,
+        customHeaders: entry.headers,
+        tvgId: entry.tvgId,
+        tvgName: entry.tvgName,
+        logoUrl: entry.logoUrl && /^https?:\/\//.test(entry.logoUrl) ? entry.logoUrl : undefined,
+        group: entry.group,
+      })
+      if (!parsed.success) {
+        invalid.push(`${entry.name}: ${parsed.error.issues[0]?.message ?? "invalid"}`)
+        continue
+      }
+      const { name, sourceUrl, ...options } = parsed.data
+      added.push({ name, sourceUrl: sourceUrl as string, options: { ...options, subscriptionId: subscription.id } })
+    }
+  }
+  result.added = added.length
+  if (invalid.length > 0) {
+    result.invalid = invalid.length
+    console.warn(`[subscriptions] ${subscription.name}: ${invalid.length} entries skipped, first: ${invalid[0]}`)
+  }
+
+  const next = channels.map((channel) => {
+    const updated = synced.get(channel.id)
+    if (updated) return updated
+    if (channel.subscriptionId !== subscription.id) return channel
+    result.missing++
+    return channel.missingSince ? channel : { ...channel, missingSince: at }
+  })
+  return { channels: next, added, result }
+}
+
+// Every key an entry could match the channel by
+function channelKeys(match: SubscriptionRules["match"], channel: Channel): string[] {
+  const keys = [
+    subscriptionKey(match, { tvgId: channel.tvgId, name: channel.name }),
+    subscriptionKey(match, { name: channel.name }),
+    channel.tvgName ? subscriptionKey(match, { name: channel.tvgName }) : undefined,
+  ]
+  return keys.filter((k): k is string => k !== undefined)
+}
+
+// The channel as the entry describes it now: primary source moved to the
+// entry's URL (backups kept), guide metadata and VLC headers refreshed
+function applyEntry(channel: Channel, entry: M3uEntry, subscriptionId: string): Channel {
+  const updated: Channel = { ...channel, subscriptionId, missingSince: undefined }
+
+  const sources = getChannelSources(channel)
+  if (sources[0] !== entry.url) {
+    updated.sources = [entry.url, ...sources.slice(1).filter((s) => s !== entry.url)]
+    updated.sourceUrl = entry.url
+    // The new source has not been checked yet: start over from the primary
+    updated.activeSourceIndex = 0
+    updated.status = "unknown"
+    updated.lastChecked = undefined
+  }
+
+  if (Object.keys(entry.headers).length > 0) {
+    updated.customHeaders = { ...channel.customHeaders, ...entry.headers }
+  }
+  if (entry.tvgId) updated.tvgId = entry.tvgId
+  if (entry.tvgName) updated.tvgName = entry.tvgName
+  if (entry.logoUrl && /^https?:\/\//.test(entry.logoUrl)) updated.logoUrl = entry.logoUrl
+  if (entry.group) updated.group = entry.group
+  return updated
+}
@@ -0,0 +1,166 @@
+import { readFile } from "fs/promises"
+import { join } from "path"
+import { z } from "zod"
+import { writeFileAtomic } from "@/lib/atomic-file"
+import { CHANNEL_TYPES } from "@/lib/channel-sources"
+import { DATA_DIR, type ChannelType } from "@/lib/channels"
+
+// Remote M3U lists kept in sync with the channel list, see lib/subscription-sync.ts
+
+export interface SubscriptionRules {
+  // How list entries find their channel: by tvg-id, by name, or tvg-id when
+  // the entry has one and the name otherwise
+  match: "tvg-id" | "name" | "tvg-id-or-name"
+  // Only entries of these group-titles; unset or empty syncs the whole list
+  groups?: string[]
+  // Create channels for entries that match none
+  addNew: boolean
+  // Type of new channels; guessed from each URL when unset
+  type?: ChannelType
+}
+
+export interface SyncResult {
+  at: string
+  ok: boolean
+  error?: string
+  // Channels whose primary source moved to a new URL
+  updated: number
+  unchanged: number
+  added: number
+  // Linked channels the list no longer has (flagged, never deleted)
+  missing: number
+  // New entries left out because they do not make a valid channel (absent
+  // from results saved before it was counted)
+  invalid?: number
+}
+
+export interface Subscription {
+  id: string
+  name: string
+  url: string
+  rules: SubscriptionRules
+  createdAt: string
+  lastSync?: SyncResult
+  // Match keys (see subscriptionKey) of entries whose channel was deleted by
+  // hand, so the next sync does not bring them back
+  ignored?: string[]
+}
+
+const SUBSCRIPTIONS_FILE = join(DATA_DIR, "subscriptions.json")
+
+// subscriptions.json as written by this module, checked on every read like the
+// channel data is
+const storedSubscriptionsSchema: z.ZodType<Subscription[]> = z.array(
+  z.object({
+    id: z.string().min(1),
+    name: z.string(),
+    url: z.string(),
+    rules: z.object({
+      match: z.enum(["tvg-id", "name", "tvg-id-or-name"]),
+      groups: z.array(z.string()).optional(),
+      addNew: z.boolean(),
+      type: z.enum(CHANNEL_TYPES).optional(),
+    }),
+    createdAt: z.string(),
+    lastSync: z
+      .object({
+        at: z.string(),
+        ok: z.boolean(),
+        error: z.string().optional(),
+        updated: z.number(),
+        unchanged: z.number(),
+        added: z.number(),
+        missing: z.number(),
+        invalid: z.number().optional(),
+      })
+      .optional(),
+    ignored: z.array(z.string()).optional(),
+  }),
+)
+
+const globalForSubscriptions = globalThis as unknown as { subscriptionQueue?: Promise<unknown> }
+
+export async function getSubscriptions(): Promise<Subscription[]> {
+  let data: string
+  try {
+    data = await readFile(SUBSCRIPTIONS_FILE, "utf-8")
+  } catch (e) {
+    if ((e as NodeJS.ErrnoException).code === "ENOENT") return []
+    throw e
+  }
+
+  let raw: unknown
+  try {
+    raw = JSON.parse(data)
+  } catch (e) {
+    throw new Error(`${SUBSCRIPTIONS_FILE} is not valid JSON: ${e instanceof Error ? e.message : String(e)}`)
+  }
+  const parsed = storedSubscriptionsSchema.safeParse(raw)
+  if (!parsed.success) {
+    const issue = parsed.error.issues[0]
+    const detail = issue ? `${issue.path.join(".") || "root"}: ${issue.message}` : "unknown error"
+    throw new Error(`Invalid ${SUBSCRIPTIONS_FILE}: ${detail}`)
+  }
+  return parsed.data
+}
+
+// Changes run one at a time, like channel mutations
+function mutate<T>(change: (subscriptions: Subscription[]) => { subscriptions: Subscription[]; result: T }): Promise<T> {
+  const run = (globalForSubscriptions.subscriptionQueue ?? Promise.resolve()).then(async () => {
+    const { subscriptions, result } = change(await getSubscriptions())
+    await writeFileAtomic(SUBSCRIPTIONS_FILE, JSON.stringify(subscriptions, null, 2))
+    return result
+  })
+  globalForSubscriptions.subscriptionQueue = run.catch(() => {})
+  return run
+}
+
+export async function addSubscription(name: string, url: string, rules: SubscriptionRules): Promise<Subscription> {
+  const subscription: Subscription = {
+    id: generateId(),
+    name: name.trim(),
+    url: url.trim(),
+    rules,
+    createdAt: new Date().toISOString(),
+  }
+  return mutate((subscriptions) => ({ subscriptions: [...subscriptions, subscription], result: subscription }))
+}
+
+export async function updateSubscription(id: string, updates: Partial<Subscription>): Promise<Subscription | null> {
+  return mutate((subscriptions) => {
+    const existing = subscriptions.find((s) => s.id === id)
+    if (!existing) return { subscriptions, result: null }
+    const updated = { ...existing, ...updates }
+    return { subscriptions: subscriptions.map((s) => (s.id === id ? updated : s)), result: updated }
+  })
+}
+
+export async function removeSubscription(id: string): Promise<void> {
+  await mutate((subscriptions) => ({ subscriptions: subscriptions.filter((s) => s.id !== id), result: undefined }))
+}
+
+// Remembers that the channel's entry should no longer be synced
+export async function ignoreEntry(subscriptionId: string, key: string): Promise<void> {
+  await mutate((subscriptions) => ({
+    subscriptions: subscriptions.map((s) =>
+      s.id === subscriptionId && !s.ignored?.includes(key) ? { ...s, ignored: [...(s.ignored ?? []), key] } : s,
+    ),
+    result: undefined,
+  }))
+}
+
+// What identifies an entry (or channel) under the subscription's match rule;
+// undefined when it has nothing to match on
+export function subscriptionKey(
+  match: SubscriptionRules["match"],
+  item: { tvgId?: string; name: string },
+): string | undefined {
+  if (item.tvgId && match !== "name") return `tvg-id:${item.tvgId}`
+  if (match === "tvg-id") return undefined
+  const name = item.name.trim().toLowerCase().replace(/\s+/g, " ")
+  return name ? `name:${name}` : undefined
+}
+
+function generateId(): string {
+  return Math.random().toString(36).substring(2, 8) + Date.now().toString(36)
+}
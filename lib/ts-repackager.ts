@@ -0,0 +1,181 @@
+import { config } from "@/lib/config"
+import { serializePlaylist, type MediaPlaylist } from "@/lib/hls"
+import { TsSegmenter, type TsSegment } from "@/lib/ts-segmenter"
+
+/**
+ * Live MPEG-TS → HLS repackaging
+ *
+ * One session per channel reads the channel's continuous transport stream,
+ * cuts it with TsSegmenter and keeps a sliding window of segments in memory,
+ * from which a live media playlist is synthesized. A session starts with the
+ * first viewer and closes the origin stream once nobody has requested the
+ * playlist or a segment for TS_IDLE_TIMEOUT_MS.
+ *
+ * When the origin stream ends or fails, the next request reconnects. Sequence
+ * numbers carry on across reconnects and the first new segment is marked as a
+ * discontinuity, so players keep their place.
+ */
+
+// Opens the channel's origin stream (with failover); aborted through `signal`
+export type StreamOpener = (signal: AbortSignal) => Promise<Response>
+
+// How long the first viewer waits for the first segment to be cut
+const FIRST_SEGMENT_TIMEOUT_MS = 30_000
+
+// Segments kept past the playlist window, for players still downloading them
+const SPARE_SEGMENTS = 3
+
+class LiveSession {
+  private segments: TsSegment[] = []
+  private nextSequence = 0
+  // Discontinuities that dropped out of the window (EXT-X-DISCONTINUITY-SEQUENCE)
+  private droppedDiscontinuities = 0
+  private reading: AbortController | null = null
+  private lastError: string | null = null
+  private lastAccess = Date.now()
+  private waiters: (() => void)[] = []
+  private idleTimer: ReturnType<typeof setInterval>
+
+  constructor(
+    readonly channelId: string,
+    private open: StreamOpener,
+    private onIdle: () => void,
+  ) {
+    this.idleTimer = setInterval(() => {
+      if (Date.now() - this.lastAccess >= config.tsIdleTimeoutMs) this.stop()
+    }, Math.min(config.tsIdleTimeoutMs, 5000))
+    // Never keep the process alive just for this
+    this.idleTimer.unref?.()
+  }
+
+  // Makes sure the origin is being read and waits until there is something to list
+  async ready(): Promise<void> {
+    this.lastAccess = Date.now()
+    if (!this.reading) this.start()
+    if (this.segments.length > 0) return
+
+    await new Promise<void>((resolve) => {
+      const timer = setTimeout(resolve, FIRST_SEGMENT_TIMEOUT_MS)
+      this.waiters.push(() => {
+        clearTimeout(timer)
+        resolve()
+      })
+    })
+    if (this.segments.length === 0) throw new Error(this.lastError ?? "No segments from the origin stream")
+  }
+
+  segment(sequence: number): TsSegment | undefined {
+    this.lastAccess = Date.now()
+    return this.segments.find((s) => s.sequence === sequence)
+  }
+
+  playlist(segmentUrl: (sequence: number) => string): string {
+    const listed = this.segments.slice(-config.tsPlaylistWindow)
+    const spare = this.segments.slice(0, this.segments.length - listed.length)
+
+    const playlist: MediaPlaylist = {
+      type: "media",
+      version: 3,
+      // Every segment starts with PAT, PMT and a keyframe
+      independentSegments: true,
+      targetDuration: Math.ceil(Math.max(config.tsSegmentSeconds, ...listed.map((s) => s.duration))),
+      mediaSequence: listed[0]?.sequence ?? this.nextSequence,
+      discontinuitySequence: this.droppedDiscontinuities + spare.filter((s) => s.discontinuity).length,
+      iFramesOnly: false,
+      endList: false,
+      defines: [],
+      segments: listed.map((s) => ({
+        discontinuity: s.discontinuity,
+        gap: false,
+        keys: [],
+        dateRanges: [],
+        parts: [],
+        tags: [],
+        uri: segmentUrl(s.sequence),
+        duration: Math.round(s.duration * 1000) / 1000,
+      })),
+      preloadHints: [],
+      renditionReports: [],
+      tags: [],
+    }
+    return serializePlaylist(playlist)
+  }
+
+  stop() {
+    clearInterval(this.idleTimer)
+    this.reading?.abort()
+    this.reading = null
+    this.onIdle()
+  }
+
+  private start() {
+    const controller = new AbortController()
+    this.reading = controller
+    void this.read(controller)
+  }
+
+  private async read(controller: AbortController) {
+    const segmenter = new TsSegmenter(config.tsSegmentSeconds, this.nextSequence, this.nextSequence > 0)
+    try {
+      const res = await this.open(controller.signal)
+      const reader = (res.body as ReadableStream<Uint8Array>).getReader()
+      this.lastError = null
+      for (;;) {
+        const { done, value } = await reader.read()
+        if (done) break
+        for (const segment of segmenter.push(value)) this.add(segment)
+      }
+      console.warn(`[proxy] MPEG-TS origin of channel ${this.channelId} ended`)
+    } catch (e) {
+      if (!controller.signal.aborted) {
+        this.lastError = e instanceof Error ? e.message : "Origin stream failed"
+        console.warn(`[proxy] MPEG-TS origin of channel ${this.channelId} failed:`, this.lastError)
+      }
+    } finally {
+      if (this.reading === controller) this.reading = null
+      this.wake()
+    }
+  }
+
+  private add(segment: TsSegment) {
+    this.segments.push(segment)
+    this.nextSequence = segment.sequence + 1
+    while (this.segments.length > config.tsPlaylistWindow + SPARE_SEGMENTS) {
+      if (this.segments.shift()?.discontinuity) this.droppedDiscontinuities++
+    }
+    this.wake()
+  }
+
+  private wake() {
+    const waiters = this.waiters
+    this.waiters = []
+    for (const wake of waiters) wake()
+  }
+}
+
+// ── Session registry ───────────────────────────────────────────────────────
+
+const globalForSessions = globalThis as unknown as { liveTsSessions?: Map<string, LiveSession> }
+
+function sessions(): Map<string, LiveSession> {
+  if (!globalForSessions.liveTsSessions) globalForSessions.liveTsSessions = new Map()
+  return globalForSessions.liveTsSessions
+}
+
+// The channel's running session, or a new one reading through `open`
+export function getLiveSession(channelId: string, open: StreamOpener): LiveSession {
+  const all = sessions()
+  let session = all.get(channelId)
+  if (!session) {
+    session = new LiveSession(channelId, open, () => {
+      if (all.get(channelId) === session) all.delete(channelId)
+    })
+    all.set(channelId, session)
+  }
+  return session
+}
+
+// Only an existing session: segment requests never start reading the origin
+export function findLiveSession(channelId: string): LiveSession | undefined {
+  return sessions().get(channelId)
+}
@@ -0,0 +1,135 @@
+import { describe, expect, it } from "vitest"
+import { TsSegmenter, type TsSegment } from "@/lib/ts-segmenter"
+
+// ── Stream fixtures ────────────────────────────────────────────────────────
+// One program with a single H.264 stream, one PES packet per frame
+
+const PMT_PID = 0x100
+const VIDEO_PID = 0x101
+const CRC = [0, 0, 0, 0]
+
+function packet(pid: number, payload: number[], randomAccess = false): Uint8Array {
+  const out = new Uint8Array(188).fill(0xff)
+  const header = randomAccess ? [0x30, 1, 0x40] : [0x10]
+  out.set([0x47, 0x40 | (pid >> 8), pid & 0xff, ...header, ...payload])
+  return out
+}
+
+const PAT = packet(0, [0, 0x00, 0xb0, 13, 0, 1, 0xc1, 0, 0, 0, 1, 0xe0 | (PMT_PID >> 8), PMT_PID & 0xff, ...CRC])
+const PMT = packet(PMT_PID, [
+  // Pointer, table id, section length, program 1, version, section numbers
+  0, 0x02, 0xb0, 18, 0, 1, 0xc1, 0, 0,
+  // PCR PID, no program descriptors
+  0xe0 | (VIDEO_PID >> 8), VIDEO_PID & 0xff, 0xf0, 0,
+  // H.264 stream, no descriptors
+  0x1b, 0xe0 | (VIDEO_PID >> 8), VIDEO_PID & 0xff, 0xf0, 0,
+  ...CRC,
+])
+
+type FrameKind = "idr" | "random-access" | "delta"
+
+// A frame `seconds` into the stream: a PES header with its PTS, then one NAL unit
+function frame(seconds: number, kind: FrameKind): Uint8Array {
+  const pts = Math.round(seconds * 90_000)
+  const timestamp = [
+    0x21 | ((Math.floor(pts / 2 ** 30) & 0x07) << 1),
+    (pts >> 22) & 0xff,
+    ((pts >> 14) & 0xfe) | 1,
+    (pts >> 7) & 0xff,
+    ((pts << 1) & 0xfe) | 1,
+  ]
+  const nal = kind === "idr" ? 0x65 : 0x41
+  return packet(VIDEO_PID, [0, 0, 1, 0xe0, 0, 0, 0x80, 0x80, 5, ...timestamp, 0, 0, 1, nal], kind === "random-access")
+}
+
+// Frames every second, a keyframe every `gop` seconds
+function frames(from: number, to: number, gop = 2): Uint8Array[] {
+  const out: Uint8Array[] = []
+  for (let t = from; t <= to; t++) out.push(frame(t, (t - from) % gop === 0 ? "idr" : "delta"))
+  return out
+}
+
+function join(packets: Uint8Array[]): Uint8Array {
+  const out = new Uint8Array(packets.length * 188)
+  packets.forEach((p, i) => out.set(p, i * 188))
+  return out
+}
+
+function summary(segments: TsSegment[]) {
+  return segments.map(({ sequence, duration, discontinuity, data }) => ({
+    sequence,
+    duration,
+    discontinuity,
+    packets: data.length / 188,
+  }))
+}
+
+describe("TsSegmenter", () => {
+  it("cuts at the first keyframe past the target duration", () => {
+    const segmenter = new TsSegmenter(4, 7)
+    const segments = segmenter.push(join([PAT, PMT, ...frames(0, 10)]))
+
+    expect(summary(segments)).toEqual([
+      { sequence: 7, duration: 4, discontinuity: false, packets: 6 },
+      { sequence: 8, duration: 4, discontinuity: false, packets: 6 },
+    ])
+    // Each segment starts with the program tables and its keyframe
+    for (const [i, segment] of segments.entries()) {
+      expect(segment.data.subarray(0, 188)).toEqual(PAT)
+      expect(segment.data.subarray(188, 376)).toEqual(PMT)
+      expect(segment.data.subarray(376, 564)).toEqual(frame(4 * i, "idr"))
+    }
+  })
+
+  it("drops what comes before the first keyframe", () => {
+    const segments = new TsSegmenter(4).push(join([PAT, PMT, frame(0, "delta"), frame(1, "delta"), ...frames(2, 8)]))
+    expect(segments).toHaveLength(1)
+    expect(segments[0].data.subarray(376, 564)).toEqual(frame(2, "idr"))
+  })
+
+  it("takes the random access indicator as a keyframe", () => {
+    const packets = [PAT, PMT, frame(0, "random-access"), ...[1, 2, 3].map((t) => frame(t, "delta"))]
+    const segments = new TsSegmenter(4).push(join([...packets, frame(4, "random-access")]))
+    expect(summary(segments)).toEqual([{ sequence: 0, duration: 4, discontinuity: false, packets: 6 }])
+  })
+
+  it("still cuts streams whose keyframes cannot be found", () => {
+    const packets = [PAT, PMT, ...frames(0, 20, 100)]
+    expect(summary(new TsSegmenter(4).push(join(packets)))).toEqual([
+      { sequence: 0, duration: 16, discontinuity: false, packets: 18 },
+    ])
+  })
+
+  it("gives the same segments whatever the chunking, across lost sync", () => {
+    const stream = join([PAT, PMT, ...frames(0, 10)])
+    const expected = summary(new TsSegmenter(4).push(stream))
+
+    const segmenter = new TsSegmenter(4)
+    const segments: TsSegment[] = []
+    // Garbage before the first packet must be skipped
+    const input = new Uint8Array([1, 2, 3, ...stream])
+    for (let offset = 0; offset < input.length; offset += 100) {
+      segments.push(...segmenter.push(input.subarray(offset, offset + 100)))
+    }
+    expect(summary(segments)).toEqual(expected)
+  })
+
+  it("ends a segment at a timestamp jump and marks the next one", () => {
+    const segmenter = new TsSegmenter(4, 0, true)
+    const segments = segmenter.push(join([PAT, PMT, ...frames(0, 2, 1), ...frames(100, 104)]))
+    expect(summary(segments)).toEqual([
+      // Marked because the segmenter was told it resumes a stream
+      { sequence: 0, duration: 2, discontinuity: true, packets: 5 },
+      { sequence: 1, duration: 4, discontinuity: true, packets: 6 },
+    ])
+  })
+
+  it("counts durations across the timestamp wrap", () => {
+    const wrap = 2 ** 33 / 90_000
+    const start = Math.floor(wrap) - 2
+    const packets = [0, 1, 2, 3, 4].map((t) => frame((start + t) % wrap, t % 2 === 0 ? "idr" : "delta"))
+    const segments = new TsSegmenter(4).push(join([PAT, PMT, ...packets]))
+    expect(segments).toHaveLength(1)
+    expect(segments[0].duration).toBeCloseTo(4, 3)
+  })
+})
@@ -0,0 +1,279 @@
+/**
+ * MPEG-TS segmenter
+ *
+ * Cuts a continuous transport stream (ISO/IEC 13818-1) into HLS segments
+ * without remuxing: packets are copied as they are. Every segment starts with
+ * the latest PAT and PMT followed by the PES packet of a video keyframe, so
+ * each one can be decoded on its own. Only what is needed to find those cut
+ * points is parsed: PAT → PMT → elementary streams, PES timestamps, and the
+ * random access indicator or the start codes of the video payload.
+ *
+ * Streams without video (radio over TS) are cut at audio PES boundaries.
+ */
+
+const PACKET_SIZE = 188
+const SYNC_BYTE = 0x47
+const PAT_PID = 0x0000
+
+// PES timestamps are 33-bit counters of a 90 kHz clock
+const TIMESTAMP_WRAP = 2 ** 33
+const TIMESTAMP_HZ = 90_000
+
+// Steps between consecutive timestamps beyond this are jumps (origin restart,
+// splice), not elapsed time
+const MAX_TIMESTAMP_STEP_SECONDS = 10
+
+// Streams whose keyframes cannot be detected are still cut, just not cleanly
+const MAX_SEGMENT_TARGETS = 4
+
+const H264 = 0x1b
+const HEVC = 0x24
+const VIDEO_STREAM_TYPES = new Set([0x01, 0x02, 0x10, H264, HEVC])
+// MPEG-1/2 audio, AAC (ADTS and LATM), AC-3 and E-AC-3 (ATSC)
+const AUDIO_STREAM_TYPES = new Set([0x03, 0x04, 0x0f, 0x11, 0x81, 0x87])
+
+export interface TsSegment {
+  sequence: number
+  // Seconds, from PES timestamps
+  duration: number
+  data: Uint8Array
+  // Timestamps do not continue from the previous segment
+  discontinuity: boolean
+}
+
+export class TsSegmenter {
+  // Bytes of an incomplete packet left over from the previous chunk
+  private remainder = new Uint8Array(0)
+  private pmtPid: number | null = null
+  private pat: Uint8Array | null = null
+  private pmt: Uint8Array | null = null
+  // Elementary stream whose PES starts are the candidate cut points
+  private cutPid: number | null = null
+  private cutStreamType = 0
+
+  // Packets of the segment being built; empty until the first keyframe
+  private packets: Uint8Array[] = []
+  private startTimestamp: number | null = null
+  private lastTimestamp: number | null = null
+
+  constructor(
+    private targetSeconds: number,
+    private nextSequence = 0,
+    // Mark the first segment, e.g. when resuming after a reconnect
+    private discontinuity = false,
+  ) {}
+
+  // Feeds a chunk of the stream; returns the segments it completed
+  push(chunk: Uint8Array): TsSegment[] {
+    const data = this.remainder.length > 0 ? concat([this.remainder, chunk]) : chunk
+    const completed: TsSegment[] = []
+
+    let offset = 0
+    while (offset + PACKET_SIZE <= data.length) {
+      if (data[offset] !== SYNC_BYTE) {
+        offset = resync(data, offset + 1)
+        continue
+      }
+      const segment = this.packet(data.subarray(offset, offset + PACKET_SIZE))
+      if (segment) completed.push(segment)
+      offset += PACKET_SIZE
+    }
+
+    this.remainder = data.slice(offset)
+    return completed
+  }
+
+  private packet(packet: Uint8Array): TsSegment | null {
+    const payloadStart = (packet[1] & 0x40) !== 0
+    const pid = ((packet[1] & 0x1f) << 8) | packet[2]
+    const adaptation = (packet[3] & 0x20) !== 0
+    const hasPayload = (packet[3] & 0x10) !== 0
+
+    let payload = 4
+    let randomAccess = false
+    if (adaptation) {
+      const length = packet[4]
+      randomAccess = length > 0 && (packet[5] & 0x40) !== 0
+      payload = 5 + length
+    }
+    const withPayload = hasPayload && payload < PACKET_SIZE
+
+    if (pid === PAT_PID && payloadStart && withPayload) {
+      this.readPat(packet, payload)
+      this.pat = packet.slice()
+    } else if (pid === this.pmtPid && payloadStart && withPayload) {
+      this.readPmt(packet, payload)
+      this.pmt = packet.slice()
+    }
+
+    let completed: TsSegment | null = null
+    if (pid === this.cutPid && payloadStart && withPayload) {
+      completed = this.pesStart(packet.subarray(payload), randomAccess)
+    }
+
+    if (this.startTimestamp !== null) this.packets.push(packet)
+    return completed
+  }
+
+  // A PES packet of the cut stream begins: maybe close the current segment
+  // and open the next one with this packet
+  private pesStart(pes: Uint8Array, randomAccess: boolean): TsSegment | null {
+    const timestamp = readTimestamp(pes)
+    if (timestamp === null || !this.pat || !this.pmt) return null
+
+    const keyframe = !VIDEO_STREAM_TYPES.has(this.cutStreamType) || randomAccess || isKeyframe(pes, this.cutStreamType)
+    const previous = this.lastTimestamp
+    const jumped = previous !== null && elapsed(previous, timestamp) > MAX_TIMESTAMP_STEP_SECONDS
+    this.lastTimestamp = timestamp
+
+    if (this.startTimestamp === null) {
+      if (keyframe) this.open(timestamp)
+      return null
+    }
+
+    if (jumped) {
+      // The segment so far ends where its timestamps did; the next one waits for a keyframe
+      const completed = this.close(elapsed(this.startTimestamp, previous ?? this.startTimestamp))
+      this.discontinuity = true
+      if (keyframe) this.open(timestamp)
+      return completed
+    }
+
+    const duration = elapsed(this.startTimestamp, timestamp)
+    const due = keyframe ? duration >= this.targetSeconds : duration >= this.targetSeconds * MAX_SEGMENT_TARGETS
+    if (!due) return null
+
+    const completed = this.close(duration)
+    this.open(timestamp)
+    return completed
+  }
+
+  private open(timestamp: number) {
+    // The current packet is appended by the caller
+    this.packets = [this.pat as Uint8Array, this.pmt as Uint8Array]
+    this.startTimestamp = timestamp
+  }
+
+  private close(duration: number): TsSegment {
+    const segment: TsSegment = {
+      sequence: this.nextSequence++,
+      duration,
+      data: concat(this.packets),
+      discontinuity: this.discontinuity,
+    }
+    this.packets = []
+    this.startTimestamp = null
+    this.discontinuity = false
+    return segment
+  }
+
+  // ── Program tables ───────────────────────────────────────────────────────
+  // Both are assumed to fit in one packet, which they do outside of exotic
+  // multi-program muxes. The first program is the one that is segmented.
+
+  private readPat(packet: Uint8Array, payload: number) {
+    const table = payload + 1 + packet[payload] // skip pointer_field
+    if (packet[table] !== 0x00) return
+    const end = sectionEnd(packet, table)
+    for (let i = table + 8; i + 4 <= end; i += 4) {
+      const program = (packet[i] << 8) | packet[i + 1]
+      if (program !== 0) {
+        this.pmtPid = ((packet[i + 2] & 0x1f) << 8) | packet[i + 3]
+        return
+      }
+    }
+  }
+
+  private readPmt(packet: Uint8Array, payload: number) {
+    const table = payload + 1 + packet[payload]
+    if (packet[table] !== 0x02) return
+    const end = sectionEnd(packet, table)
+    const programInfoLength = ((packet[table + 10] & 0x0f) << 8) | packet[table + 11]
+
+    let video: [number, number] | null = null
+    let audio: [number, number] | null = null
+    for (let i = table + 12 + programInfoLength; i + 5 <= end; ) {
+      const streamType = packet[i]
+      const pid = ((packet[i + 1] & 0x1f) << 8) | packet[i + 2]
+      if (!video && VIDEO_STREAM_TYPES.has(streamType)) video = [pid, streamType]
+      if (!audio && AUDIO_STREAM_TYPES.has(streamType)) audio = [pid, streamType]
+      i += 5 + (((packet[i + 3] & 0x0f) << 8) | packet[i + 4])
+    }
+
+    const cut = video ?? audio
+    if (cut) [this.cutPid, this.cutStreamType] = cut
+  }
+}
+
+// ── Helpers ────────────────────────────────────────────────────────────────
+
+// Next offset that looks like a packet boundary: a sync byte with another one
+// a packet further on (or the end of the data, to be checked with the next chunk)
+function resync(data: Uint8Array, from: number): number {
+  for (let i = from; i < data.length; i++) {
+    if (data[i] === SYNC_BYTE && (i + PACKET_SIZE >= data.length || data[i + PACKET_SIZE] === SYNC_BYTE)) return i
+  }
+  return data.length
+}
+
+// End of the section's data, before the CRC, clamped to the packet
+function sectionEnd(packet: Uint8Array, table: number): number {
+  const sectionLength = ((packet[table + 1] & 0x0f) << 8) | packet[table + 2]
+  return Math.min(table + 3 + sectionLength - 4, PACKET_SIZE)
+}
+
+// DTS when present (it only moves forward, unlike PTS with B-frames), else PTS
+function readTimestamp(pes: Uint8Array): number | null {
+  if (pes.length < 14 || pes[0] !== 0 || pes[1] !== 0 || pes[2] !== 1) return null
+  const flags = pes[7] >> 6
+  if (flags === 3 && pes.length >= 19) return decodeTimestamp(pes, 14)
+  if (flags === 2 || flags === 3) return decodeTimestamp(pes, 9)
+  return null
+}
+
+function decodeTimestamp(b: Uint8Array, at: number): number {
+  // 33 bits do not fit in a 32-bit bitwise operation: combine with arithmetic
+  return (
+    ((b[at] >> 1) & 0x07) * 2 ** 30 +
+    ((b[at + 1] << 22) | ((b[at + 2] >> 1) << 15) | (b[at + 3] << 7) | (b[at + 4] >> 1))
+  )
+}
+
+// Seconds from `from` to `to`, across the 33-bit wrap. Small steps backwards
+// (reordered timestamps) count as zero.
+function elapsed(from: number, to: number): number {
+  const ticks = (to - from + TIMESTAMP_WRAP) % TIMESTAMP_WRAP
+  return ticks > TIMESTAMP_WRAP - TIMESTAMP_HZ ? 0 : ticks / TIMESTAMP_HZ
+}
+
+// Looks for a random access point in the first bytes of a video PES packet:
+// an IDR slice or SPS (H.264), an IRAP picture or parameter set (HEVC), or a
+// sequence / visual object sequence header (MPEG-1/2/4 video)
+function isKeyframe(pes: Uint8Array, streamType: number): boolean {
+  const data = pes.subarray(9 + pes[8])
+  for (let i = 0; i + 3 < data.length; i++) {
+    if (data[i] !== 0 || data[i + 1] !== 0 || data[i + 2] !== 1) continue
+    const code = data[i + 3]
+    if (streamType === H264) {
+      const type = code & 0x1f
+      if (type === 5 || type === 7) return true
+    } else if (streamType === HEVC) {
+      const type = (code >> 1) & 0x3f
+      if ((type >= 16 && type <= 21) || type === 32 || type === 33) return true
+    } else if (code === 0xb3 || code === 0xb0) {
+      return true
+    }
+  }
+  return false
+}
+
+function concat(parts: Uint8Array[]): Uint8Array {
+  const total = parts.reduce((n, p) => n + p.byteLength, 0)
+  const out = new Uint8Array(total)
+  let offset = 0
+  for (const part of parts) {
+    out.set(part, offset)
+    offset += part.byteLength
+  }
+  return out
+}
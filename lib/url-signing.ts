@@ -0,0 +1,56 @@
+import { createHmac, randomBytes, timingSafeEqual } from "crypto"
+import { config } from "@/lib/config"
+
+/**
+ * HMAC signatures for rewritten proxy URLs
+ *
+ * Only URLs minted by our own playlist rewriter carry a valid signature, so
+ * /api/proxy/s cannot be used to fetch arbitrary targets. The signature binds
+ * the encoded target URL, the channel reference (channel id, or the legacy
+ * ?h= headers) and the expiry time.
+ */
+
+const globalForSigning = globalThis as unknown as { proxySigningKey?: Buffer }
+
+function signingKey(): Buffer {
+  if (config.proxySigningSecret) return Buffer.from(config.proxySigningSecret, "utf-8")
+  if (!globalForSigning.proxySigningKey) {
+    console.warn("[proxy] PROXY_SIGNING_SECRET is not set, proxy URLs will not survive a restart")
+    globalForSigning.proxySigningKey = randomBytes(32)
+  }
+  return globalForSigning.proxySigningKey
+}
+
+function computeSignature(
+  encodedUrl: string,
+  channelId: string | undefined,
+  legacyHeaders: string | undefined,
+  expires: number,
+): string {
+  return createHmac("sha256", signingKey())
+    .update(`${encodedUrl}\n${channelId ?? ""}\n${legacyHeaders ?? ""}\n${expires}`)
+    .digest("base64url")
+}
+
+export interface UrlSignature {
+  expires: number
+  sig: string
+}
+
+export function signProxyUrl(encodedUrl: string, channelId?: string, legacyHeaders?: string): UrlSignature {
+  const expires = Math.floor(Date.now() / 1000) + config.proxyUrlTtlSeconds
+  return { expires, sig: computeSignature(encodedUrl, channelId, legacyHeaders, expires) }
+}
+
+export function verifyProxyUrl(
+  encodedUrl: string,
+  channelId: string | undefined,
+  legacyHeaders: string | undefined,
+  expires: number,
+  sig: string,
+): boolean {
+  if (!Number.isFinite(expires) || expires < Date.now() / 1000) return false
+  const expected = Buffer.from(computeSignature(encodedUrl, channelId, legacyHeaders, expires))
+  const actual = Buffer.from(sig)
+  return expected.length === actual.length && timingSafeEqual(expected, actual)
+}
@@ -0,0 +1,87 @@
+import { describe, expect, it } from "vitest"
+import { parsePlaylist, type Playlist } from "@/lib/hls"
+import { applyVariantRules, variantRulesFromQuery, type VariantRules } from "@/lib/variant-rules"
+
+const MASTER = `#EXTM3U
+#EXT-X-STREAM-INF:BANDWIDTH=2500000,RESOLUTION=1280x720,CODECS="avc1.4d401f,mp4a.40.2"
+720.m3u8
+#EXT-X-STREAM-INF:BANDWIDTH=800000,RESOLUTION=640x360,CODECS="avc1.4d401e,mp4a.40.2"
+360.m3u8
+#EXT-X-STREAM-INF:BANDWIDTH=6000000,RESOLUTION=1920x1080,CODECS="hvc1.2.4.L123,mp4a.40.2"
+1080.m3u8
+#EXT-X-STREAM-INF:BANDWIDTH=4000000
+unknown.m3u8
+`
+
+// Variant URIs of the playlist after applying `rules`, in order
+function uris(rules: VariantRules | undefined, text = MASTER): string[] {
+  const playlist = applyVariantRules(parsePlaylist(text), rules)
+  return playlist.type === "master" ? playlist.variants.map((v) => v.uri) : []
+}
+
+describe("variantRulesFromQuery", () => {
+  it("returns nothing without rule parameters", () => {
+    expect(variantRulesFromQuery(new URLSearchParams("token=abc&maxHeight="))).toEqual({})
+  })
+
+  it.each([
+    ["maxHeight=720", { maxHeight: 720 }],
+    ["maxBandwidth=3000000&minBandwidth=500000", { maxBandwidth: 3000000, minBandwidth: 500000 }],
+    ["codecs=avc1,,mp4a", { codecs: ["avc1", "mp4a"] }],
+    ["prefer=lowest", { prefer: "lowest" }],
+    ["prefer=720", { prefer: 720 }],
+  ])("parses %s", (query, rules) => {
+    expect(variantRulesFromQuery(new URLSearchParams(query))).toEqual({ rules })
+  })
+
+  it.each([
+    ["maxHeight=abc", "Invalid maxHeight"],
+    ["maxHeight=-1", "Invalid maxHeight"],
+    ["prefer=best", "Invalid prefer"],
+    ["codecs=avc1;x", "Invalid codecs.0"],
+    ["minBandwidth=2000&maxBandwidth=1000", "Invalid variant rules"],
+  ])("rejects %s", (query, error) => {
+    expect(variantRulesFromQuery(new URLSearchParams(query)).error).toMatch(new RegExp(`^${error}: `))
+  })
+})
+
+describe("applyVariantRules", () => {
+  it.each<[VariantRules | undefined, string[]]>([
+    [undefined, ["720.m3u8", "360.m3u8", "1080.m3u8", "unknown.m3u8"]],
+    [{}, ["720.m3u8", "360.m3u8", "1080.m3u8", "unknown.m3u8"]],
+    // Variants that do not declare an attribute are never excluded by it
+    [{ maxHeight: 720 }, ["720.m3u8", "360.m3u8", "unknown.m3u8"]],
+    [{ maxBandwidth: 3000000 }, ["720.m3u8", "360.m3u8"]],
+    [{ minBandwidth: 1000000 }, ["720.m3u8", "1080.m3u8", "unknown.m3u8"]],
+    [{ codecs: ["AVC1", "mp4a"] }, ["720.m3u8", "360.m3u8", "unknown.m3u8"]],
+    [{ codecs: ["avc1"] }, ["unknown.m3u8"]],
+  ])("filters with %o", (rules, expected) => {
+    expect(uris(rules)).toEqual(expected)
+  })
+
+  it.each<[VariantRules["prefer"], string]>([
+    ["highest", "1080.m3u8"],
+    ["lowest", "360.m3u8"],
+    [1000, "1080.m3u8"],
+    [480, "360.m3u8"],
+  ])("moves the variant preferred by %s to the front", (prefer, first) => {
+    const kept = uris({ prefer })
+    expect(kept[0]).toBe(first)
+    // The rest keep the origin's order
+    expect(kept.slice(1)).toEqual(uris(undefined).filter((uri) => uri !== first))
+  })
+
+  it("serves every variant when the rules exclude them all", () => {
+    expect(uris({ maxBandwidth: 100, prefer: "lowest" })).toEqual([
+      "360.m3u8",
+      "720.m3u8",
+      "1080.m3u8",
+      "unknown.m3u8",
+    ])
+  })
+
+  it("leaves media playlists unchanged", () => {
+    const media: Playlist = parsePlaylist("#EXTM3U\n#EXT-X-TARGETDURATION:6\n#EXTINF:6,\nseg.ts\n")
+    expect(applyVariantRules(media, { maxHeight: 360 })).toBe(media)
+  })
+})
@@ -0,0 +1,110 @@
+import { variantRulesSchema } from "@/lib/channel-schema"
+import { getAttribute, type Playlist, type Variant } from "@/lib/hls"
+
+/**
+ * Master playlist variant filtering
+ *
+ * Per-channel rules (Channel.variantRules) decide which #EXT-X-STREAM-INF
+ * entries a master playlist keeps and which one comes first, since most
+ * players start with the first listed variant. The entry point also accepts
+ * the same rules as query parameters, which override the channel's:
+ *
+ *   /api/proxy/CHANNEL_ID.m3u8?maxHeight=720&codecs=avc1,mp4a&prefer=lowest
+ *
+ * Attributes a variant does not declare never exclude it, and rules that
+ * would remove every variant are ignored rather than producing an empty master.
+ */
+
+export interface VariantRules {
+  maxHeight?: number
+  // Bits per second, compared against BANDWIDTH
+  maxBandwidth?: number
+  minBandwidth?: number
+  // Allowed codec prefixes ("avc1", "mp4a"); every codec of a variant must match one
+  codecs?: string[]
+  // Variant moved to the top: highest or lowest bandwidth, or the closest height
+  prefer?: "highest" | "lowest" | number
+}
+
+export const VARIANT_QUERY_PARAMS = ["maxHeight", "maxBandwidth", "minBandwidth", "codecs", "prefer"] as const
+
+export function hasVariantRules(rules: VariantRules | undefined): rules is VariantRules {
+  return rules !== undefined && Object.values(rules).some((v) => v !== undefined)
+}
+
+// Parses the query overrides; only the parameters present are returned
+export function variantRulesFromQuery(params: URLSearchParams): { rules?: VariantRules; error?: string } {
+  const raw: Record<string, unknown> = {}
+  for (const name of VARIANT_QUERY_PARAMS) {
+    const value = params.get(name)
+    if (value === null || value.trim() === "") continue
+    if (name === "codecs") raw[name] = value.split(",").filter((c) => c.trim().length > 0)
+    else if (name === "prefer" && !/^\d+$/.test(value)) raw[name] = value
+    else raw[name] = Number(value)
+  }
+  if (Object.keys(raw).length === 0) return {}
+
+  const parsed = variantRulesSchema.safeParse(raw)
+  if (!parsed.success) {
+    const issue = parsed.error.issues[0]
+    return { error: `Invalid ${issue?.path.join(".") || "variant rules"}: ${issue?.message ?? "bad value"}` }
+  }
+  return { rules: parsed.data }
+}
+
+// ── Filtering and ordering ─────────────────────────────────────────────────
+// Media playlists and masters without rules come back unchanged
+export function applyVariantRules(playlist: Playlist, rules: VariantRules | undefined): Playlist {
+  if (!hasVariantRules(rules) || playlist.type !== "master" || playlist.variants.length === 0) return playlist
+
+  let kept = playlist.variants.filter((v) => matchesRules(v, rules))
+  if (kept.length === 0) {
+    console.warn("[proxy] Variant rules exclude every variant, serving all of them")
+    kept = playlist.variants
+  }
+
+  return { ...playlist, variants: preferVariant(kept, rules.prefer) }
+}
+
+function variantInfo(variant: Variant): { bandwidth?: number; height?: number; codecs?: string[] } {
+  const bandwidth = getAttribute(variant.attributes, "BANDWIDTH")
+  const resolution = /^\d+x(\d+)$/i.exec(getAttribute(variant.attributes, "RESOLUTION") ?? "")
+  return {
+    bandwidth: bandwidth ? Number(bandwidth) : undefined,
+    height: resolution ? Number(resolution[1]) : undefined,
+    codecs: getAttribute(variant.attributes, "CODECS")
+      ?.split(",")
+      .map((c) => c.trim().toLowerCase())
+      .filter(Boolean),
+  }
+}
+
+function matchesRules(variant: Variant, rules: VariantRules): boolean {
+  const { height, bandwidth, codecs } = variantInfo(variant)
+  if (rules.maxHeight !== undefined && height !== undefined && height > rules.maxHeight) return false
+  if (rules.maxBandwidth !== undefined && bandwidth !== undefined && bandwidth > rules.maxBandwidth) return false
+  if (rules.minBandwidth !== undefined && bandwidth !== undefined && bandwidth < rules.minBandwidth) return false
+  if (rules.codecs && rules.codecs.length > 0 && codecs) {
+    const allowed = rules.codecs.map((c) => c.toLowerCase())
+    if (!codecs.every((codec) => allowed.some((prefix) => codec.startsWith(prefix)))) return false
+  }
+  return true
+}
+
+// Moves the preferred variant to the front; the rest keep the origin's order
+function preferVariant(variants: Variant[], prefer: VariantRules["prefer"]): Variant[] {
+  if (prefer === undefined || variants.length < 2) return variants
+
+  const score = (v: Variant): number => {
+    const { bandwidth, height } = variantInfo(v)
+    if (prefer === "highest") return bandwidth ?? -Infinity
+    if (prefer === "lowest") return -(bandwidth ?? Infinity)
+    return height === undefined ? -Infinity : -Math.abs(height - prefer)
+  }
+
+  let best = 0
+  for (let i = 1; i < variants.length; i++) {
+    if (score(variants[i]) > score(variants[best])) best = i
+  }
+  return [variants[best], ...variants.slice(0, best), ...variants.slice(best + 1)]
+}